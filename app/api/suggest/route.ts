@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { SuggestRequest, SuggestResponse, SuggestionProvider, clampToRange, httpProvider, markovProvider, parseSuggestRequest } from '../../../lib/suggest'
+
+
+// SUGGEST_API_URL points at a model backend (SUGGEST_API_KEY is sent as a
+// bearer token); without it suggestions come from the built-in Markov model
+function provider(): SuggestionProvider {
+  const url = process.env.SUGGEST_API_URL
+  return url ? httpProvider(url, process.env.SUGGEST_API_KEY) : markovProvider()
+}
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  let suggestRequest: SuggestRequest
+  try {
+    suggestRequest = parseSuggestRequest(body)
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+  }
+
+  const primary = provider()
+  let result: SuggestResponse
+  try {
+    result = { provider: primary.name, candidates: await primary.suggest(suggestRequest) }
+  } catch (error) {
+    // A backend outage shouldn't leave the editor with nothing
+    const fallback = markovProvider()
+    result = {
+      provider: fallback.name,
+      candidates: await fallback.suggest(suggestRequest),
+      warning: `${primary.name} provider failed (${(error as Error).message}); used ${fallback.name} instead`
+    }
+  }
+
+  result.candidates = result.candidates
+    .map(candidate => clampToRange(candidate, suggestRequest.range))
+    .filter(candidate => candidate.length > 0)
+  return NextResponse.json(result)
+}
@@ -0,0 +1,99 @@
+'use client'
+import React, { useState } from 'react'
+import { ArpMode, ArpSettings, arpModes, parseAccentPattern } from '../lib/arpeggiator'
+import { snapOptions } from '../lib/grid'
+
+
+type ArpeggiatorPanelProps = {
+    settings: ArpSettings
+    live: boolean // arpeggiate held keys while the transport runs
+    target: string // what "Render to notes" will replace, e.g. "3 selected notes"
+    onChange: (patch: Partial<ArpSettings>) => void
+    onLiveChange: (live: boolean) => void
+    onRender: () => void
+}
+
+const selectStyle: React.CSSProperties = { padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }
+
+export default function ArpeggiatorPanel({ settings, live, target, onChange, onLiveChange, onRender }: ArpeggiatorPanelProps) {
+    // The accent pattern is edited as text and only applied once it parses
+    const [accentText, setAccentText] = useState(settings.accents.join(' '))
+    const [accentError, setAccentError] = useState<string | null>(null)
+
+    const changeAccents = (text: string) => {
+        setAccentText(text)
+        try {
+            onChange({ accents: parseAccentPattern(text) })
+            setAccentError(null)
+        } catch (error) {
+            setAccentError((error as Error).message)
+        }
+    }
+
+    return (
+        <div style={{ marginBottom: 10, display: 'flex', alignItems: 'center', gap: '10px', fontSize: 14, flexWrap: 'wrap' }}>
+            <strong>Arpeggiator:</strong>
+            <select value={settings.mode} onChange={(e) => onChange({ mode: e.target.value as ArpMode })} style={selectStyle}>
+                {arpModes.map(mode => (
+                    <option key={mode.id} value={mode.id}>{mode.label}</option>
+                ))}
+            </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                Rate:
+                <select value={settings.rate} onChange={(e) => onChange({ rate: e.target.value })} style={selectStyle}>
+                    {snapOptions.map(option => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                Gate:
+                <input
+                    type="range"
+                    min="10"
+                    max="200"
+                    step="5"
+                    value={Math.round(settings.gate * 100)}
+                    onChange={(e) => onChange({ gate: Number(e.target.value) / 100 })}
+                />
+                <span>{Math.round(settings.gate * 100)}%</span>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                Octaves:
+                <select value={settings.octaves} onChange={(e) => onChange({ octaves: Number(e.target.value) })} style={selectStyle}>
+                    {[1, 2, 3, 4].map(octaves => (
+                        <option key={octaves} value={octaves}>{octaves}</option>
+                    ))}
+                </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }} title="Velocity per step in percent, repeating">
+                Accents:
+                <input
+                    type="text"
+                    value={accentText}
+                    onChange={(e) => changeAccents(e.target.value)}
+                    style={{ width: 110, padding: '2px 4px', borderColor: accentError ? '#c55569' : undefined }}
+                />
+            </label>
+            {settings.mode === 'random' && (
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    Seed:
+                    <input
+                        type="number"
+                        value={settings.seed}
+                        onChange={(e) => onChange({ seed: Number(e.target.value) })}
+                        style={{ width: 60, padding: '2px 4px' }}
+                    />
+                </label>
+            )}
+            <button onClick={onRender} style={{ padding: '4px 12px', marginLeft: 10 }} title={`Replaces ${target} with the arpeggio`}>
+                Render to notes
+            </button>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }} title="Held keys play as an arpeggio during playback and recording">
+                <input type="checkbox" checked={live} onChange={(e) => onLiveChange(e.target.checked)} />
+                Live
+            </label>
+            {accentError && <span style={{ color: '#c55569' }}>{accentError}</span>}
+        </div>
+    )
+}
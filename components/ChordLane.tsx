@@ -0,0 +1,86 @@
+'use client'
+import React, { useEffect, useRef } from 'react'
+import { ChordLabel } from '../lib/chords'
+
+
+type ChordLaneProps = {
+    width: number
+    height: number
+    gutter: number // width of the piano keys column, so labels line up with the grid
+    pixelsPerTick: number
+    scrollTick: number
+    labels: ChordLabel[]
+}
+
+export default function ChordLane({ width, height, gutter, pixelsPerTick, scrollTick, labels }: ChordLaneProps) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null)
+
+    const tickToX = (tick: number) => gutter + (tick - scrollTick) * pixelsPerTick
+
+    // Setup canvas size for high-DPI displays
+    useEffect(() => {
+        const cvs = canvasRef.current
+        if (!cvs) return
+        const dpr = window.devicePixelRatio || 1
+        cvs.width = width * dpr
+        cvs.height = height * dpr
+        cvs.getContext('2d')?.scale(dpr, dpr)
+        cvs.style.width = width + 'px'
+        cvs.style.height = height + 'px'
+    }, [width, height])
+
+    // draw lane
+    useEffect(() => {
+        const cvs = canvasRef.current
+        if (!cvs) return
+        const ctx = cvs.getContext('2d')!
+
+        ctx.clearRect(0, 0, width, height)
+        ctx.fillStyle = '#2d3142'
+        ctx.fillRect(0, 0, width, height)
+
+        ctx.fillStyle = '#9ba3af'
+        ctx.font = '10px Arial, sans-serif'
+        ctx.textAlign = 'right'
+        ctx.fillText('Chords', gutter - 8, height / 2 + 3)
+
+        ctx.save()
+        ctx.beginPath()
+        ctx.rect(gutter, 0, width - gutter, height)
+        ctx.clip()
+        labels.forEach(label => {
+            const x = tickToX(label.start)
+            const labelW = (label.end - label.start) * pixelsPerTick
+            if (x + labelW < gutter || x > width) return
+            ctx.fillStyle = 'rgba(201, 162, 39, 0.25)'
+            ctx.fillRect(x + 1, 2, labelW - 2, height - 4)
+            ctx.strokeStyle = '#c9a227'
+            ctx.lineWidth = 1
+            ctx.strokeRect(x + 1, 2, labelW - 2, height - 4)
+            ctx.fillStyle = '#f3e4b0'
+            ctx.font = 'bold 11px Arial, sans-serif'
+            ctx.textAlign = 'left'
+            // Keep the name readable when the chord starts left of the view
+            const textX = Math.max(x, gutter) + 5
+            if (textX + ctx.measureText(label.name).width < x + labelW) {
+                ctx.fillText(label.name, textX, height / 2 + 4)
+            }
+        })
+        ctx.restore()
+    }, [width, height, gutter, pixelsPerTick, scrollTick, labels])
+
+    return (
+        <canvas
+            ref={canvasRef}
+            width={width}
+            height={height}
+            style={{
+                border: '1px solid #5a6068',
+                borderBottom: 'none',
+                borderRadius: 2,
+                backgroundColor: '#2d3142',
+                display: 'block'
+            }}
+        />
+    )
+}
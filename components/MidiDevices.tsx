@@ -0,0 +1,95 @@
+'use client'
+import React from 'react'
+import { MidiPort } from '../lib/webmidi'
+
+
+export type MidiSettings = {
+    inputId: string | null
+    outputId: string | null
+    outputChannel: number // 0-15
+    playback: 'synth' | 'midi' | 'both' // where song playback is sent
+}
+
+type MidiDevicesProps = {
+    connected: boolean // MIDI access granted
+    error: string | null
+    inputs: MidiPort[]
+    outputs: MidiPort[]
+    settings: MidiSettings
+    onConnect: () => void
+    onChange: (patch: Partial<MidiSettings>) => void
+}
+
+const selectStyle: React.CSSProperties = { padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }
+
+export default function MidiDevices({ connected, error, inputs, outputs, settings, onConnect, onChange }: MidiDevicesProps) {
+    if (!connected) {
+        return (
+            <div style={{ marginBottom: 10, display: 'flex', alignItems: 'center', gap: '10px', fontSize: 14 }}>
+                <strong>MIDI:</strong>
+                <button onClick={onConnect} style={{ padding: '4px 12px' }}>Connect MIDI devices</button>
+                {error && <span style={{ color: '#c55569' }}>{error}</span>}
+            </div>
+        )
+    }
+
+    // A selected device that was unplugged stays listed so it reconnects when plugged back in
+    const withMissing = (ports: MidiPort[], id: string | null) =>
+        id && !ports.some(port => port.id === id) ? [...ports, { id, name: 'Disconnected device' }] : ports
+
+    return (
+        <div style={{ marginBottom: 10, display: 'flex', alignItems: 'center', gap: '10px', fontSize: 14 }}>
+            <strong>MIDI:</strong>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                In:
+                <select
+                    value={settings.inputId ?? ''}
+                    onChange={(e) => onChange({ inputId: e.target.value || null })}
+                    style={selectStyle}
+                >
+                    <option value="">None</option>
+                    {withMissing(inputs, settings.inputId).map(port => (
+                        <option key={port.id} value={port.id}>{port.name}</option>
+                    ))}
+                </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: 20 }}>
+                Out:
+                <select
+                    value={settings.outputId ?? ''}
+                    onChange={(e) => onChange({ outputId: e.target.value || null })}
+                    style={selectStyle}
+                >
+                    <option value="">None</option>
+                    {withMissing(outputs, settings.outputId).map(port => (
+                        <option key={port.id} value={port.id}>{port.name}</option>
+                    ))}
+                </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                Ch:
+                <select
+                    value={settings.outputChannel}
+                    onChange={(e) => onChange({ outputChannel: Number(e.target.value) })}
+                    style={selectStyle}
+                >
+                    {Array.from({ length: 16 }, (_, i) => <option key={i} value={i}>{i + 1}</option>)}
+                </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                Play through:
+                <select
+                    value={settings.playback}
+                    onChange={(e) => onChange({ playback: e.target.value as MidiSettings['playback'] })}
+                    disabled={!settings.outputId}
+                    style={selectStyle}
+                >
+                    <option value="synth">Built-in synth</option>
+                    <option value="midi">MIDI out</option>
+                    <option value="both">Both</option>
+                </select>
+            </label>
+            {error && <span style={{ color: '#c55569' }}>{error}</span>}
+        </div>
+    )
+}
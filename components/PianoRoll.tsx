@@ -1,27 +1,131 @@
 'use client'
 import React, { useEffect, useRef, useState } from 'react'
 import * as Tone from 'tone'
-import { writeMidi } from '../lib/midi'
+import { readMidi, writeMidi } from '../lib/midi'
+import { Change, History, applyChange, emptyHistory, isEmptyChange, pushChange, redoChange, undoChange } from '../lib/history'
+import { Note, cloneNotes, newNoteId, noteSpan } from '../lib/notes'
+import { Clip, clipToNotes, createClip, parseClip, serializeClip } from '../lib/clipboard'
+import { QuantizeOptions, SNAP_OFF, quantizeNotes, snapOptions, snapTick, snapTicks } from '../lib/grid'
+import { MAX_BPM, MIN_BPM, TempoMap, barToTick, beatLines, bpmAt, defaultTempoMap, normalizeTempoMap, secondsToTick, tickToBar, tickToSeconds, timeSignatureAt } from '../lib/tempo'
+import { Track, audibleTracks, createTrack } from '../lib/tracks'
+import { BuiltInstrument, PlayableSynth, buildInstrument } from '../lib/instruments'
+import { InstrumentPreset, copyPreset, defaultPresets, emptySampler, parsePreset, serializePreset } from '../lib/presets'
+import { importSamples } from '../lib/samples'
+import { ArpSettings, accentVelocity, arpPitch, arpSequence, defaultArpSettings, renderArpeggio } from '../lib/arpeggiator'
+import { DRUM_CHANNEL, defaultFavouriteDrums, drumKitLabels, drumName, drumRows, gmDrums, isDrumTrack, stepHits } from '../lib/drums'
+import { ChordShape, chordLabels, chordPitches, chordTypes } from '../lib/chords'
+import { SuggestNote, SuggestRequest, SuggestResponse, clampToRange, markovProvider, maxSuggestTicks } from '../lib/suggest'
+import { CUSTOM_SCALE, KeySignature, conformToScale, defaultKey, hasKey, inScale, pitchClassNames, scales, snapToScale, stepInScale } from '../lib/scales'
+import { Random, createRandom } from '../lib/random'
+import { WavBitDepth, encodeWav } from '../lib/wav'
+import { MidiNoteMessage, MidiPort, listPorts, listenToInput, noteOffMessage, noteOnMessage, requestMidiAccess, silenceOutput, watchPorts } from '../lib/webmidi'
+import { PROJECT_TYPE, PROJECT_VERSION, Project, loadAutosave, parseProject, saveAutosave, serializeProject } from '../lib/project'
+import ArpeggiatorPanel from './ArpeggiatorPanel'
+import SoundDesigner from './SoundDesigner'
+import TimelineRuler from './TimelineRuler'
+import TransformMenu from './TransformMenu'
+import ChordLane from './ChordLane'
+import MidiDevices, { MidiSettings } from './MidiDevices'
+import TrackList from './TrackList'
+import VelocityLane from './VelocityLane'
 
 
-// Types for notes
-type Note = { id: string; tick: number; length: number; midi: number; vel: number }
+const PPQ = 480 // ticks per quarter for MIDI export
+const MIN_ZOOM = 0.25
+const MAX_ZOOM = 8
 
+// Seconds rendered past the last note so releases and the piano reverb can ring out
+const renderTailSeconds = 5
 
-const PPQ = 480 // ticks per quarter for MIDI export
-const BPM = 120
+const downloadFile = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    a.click()
+    URL.revokeObjectURL(url)
+}
+
+// Note fill by velocity: quiet notes are dark, loud notes bright (vel 80 ~ the classic green/pink)
+const velocityColor = (vel: number, selected: boolean) => {
+    const amount = Math.max(0, Math.min(127, vel)) / 127
+    return selected
+        ? `hsl(348, 57%, ${36 + amount * 40}%)`
+        : `hsl(98, 32%, ${28 + amount * 40}%)`
+}
 
 
 export default function PianoRoll() {
     const canvasRef = useRef<HTMLCanvasElement | null>(null)
-    const [notes, setNotes] = useState<Note[]>([])
+    const [tracks, setTracks] = useState<Track[]>(() => [createTrack('Track 1', 'piano')])
+    const tracksRef = useRef(tracks) // latest tracks, updated synchronously by edits
+    const [activeTrackId, setActiveTrackId] = useState(tracks[0].id)
+    // The project's instruments as editable data; tracks name one by id (or a drum kit)
+    const [presets, setPresets] = useState<InstrumentPreset[]>(defaultPresets)
+    const presetsRef = useRef(presets)
+    presetsRef.current = presets
+    const instrumentLabels: { [instrument: string]: string } = {
+        ...Object.fromEntries(presets.map(preset => [preset.id, preset.name])),
+        ...drumKitLabels
+    }
+    const activeTrack = tracks.find(track => track.id === activeTrackId) ?? tracks[0]
+    const activeTrackIdRef = useRef(activeTrack.id)
+    activeTrackIdRef.current = activeTrack.id
+    const notes = activeTrack.notes // the grid edits the active track
+    const drumView = isDrumTrack(activeTrack) // rows are GM drums rather than pitches
+    const notesRef = useRef<Note[]>(notes) // latest notes of the active track, updated synchronously by edits
+    notesRef.current = notes
+    const historyRef = useRef<History<Note, TempoMap>>(emptyHistory())
     const [cursorTick, setCursorTick] = useState(0)
+    const cursorTickRef = useRef(0)
+    cursorTickRef.current = cursorTick
+    const [tempoMap, setTempoMap] = useState<TempoMap>(defaultTempoMap())
+    const tempoMapRef = useRef(tempoMap)
+    tempoMapRef.current = tempoMap
+    const projectBpm = tempoMap.tempos[0].bpm
+    const projectMeter = tempoMap.timeSignatures[0]
+    // Pending tempo / time signature change entered in the tempo map row
+    const [markerBar, setMarkerBar] = useState(5)
+    const [markerBpm, setMarkerBpm] = useState(140)
+    const [markerMeter, setMarkerMeter] = useState({ numerator: 3, denominator: 4 })
+    const [snap, setSnap] = useState('1/16')
+    const grid = snapTicks(snap, PPQ) // 0 when snapping is off
+    const gridRef = useRef(grid)
+    gridRef.current = grid
+    const [quantizeSettings, setQuantizeSettings] = useState<Omit<QuantizeOptions, 'grid'>>({
+        strength: 1,
+        swing: 0,
+        mode: 'start'
+    })
+    const quantizeSettingsRef = useRef(quantizeSettings)
+    quantizeSettingsRef.current = quantizeSettings
     const [isPlaying, setIsPlaying] = useState(false)
+    const [isPaused, setIsPaused] = useState(false)
+    const isPlayingRef = useRef(false)
+    isPlayingRef.current = isPlaying
+    const playStartTickRef = useRef(0) // where Stop returns the playhead
+    const [loop, setLoop] = useState({ enabled: false, start: 0, end: PPQ * 16 })
+    const loopRef = useRef(loop)
+    loopRef.current = loop
     const [zoom, setZoom] = useState(1) // 1 = 4 bars visible
-    const [selectedInstrument, setSelectedInstrument] = useState('piano')
-    const synthRef = useRef<Tone.PolySynth | Tone.Sampler | null>(null)
+    const [wavBitDepth, setWavBitDepth] = useState<WavBitDepth>(16)
+    const [renderProgress, setRenderProgress] = useState<number | null>(null) // 0-1 while rendering a WAV
+    const selectedInstrument = activeTrack.instrument
+    // One synth per track, routed through a channel strip for volume and pan
+    const voicesRef = useRef<Map<string, {
+        instrument: string;
+        preset?: InstrumentPreset; // the preset data it was built or last updated from
+        synth: PlayableSynth;
+        update?: BuiltInstrument['update'];
+        channel: Tone.Channel;
+    }>>(new Map())
+    const pendingLoadsRef = useRef(0) // instruments still getting ready; samplesLoaded is false while any are
+    const sampleLoadsRef = useRef(new Map<object, { loaded: number; total: number }>()) // per instrument build
+    const [sampleProgress, setSampleProgress] = useState<{ loaded: number; total: number } | null>(null)
+    const [sampleErrors, setSampleErrors] = useState<{ [sample: string]: string }>({}) // why a sample didn't load, by IndexedDB key
     const timelineRef = useRef<number | null>(null)
-    const selectedRef = useRef<string | null>(null)
+    const [selection, setSelection] = useState<Set<string>>(new Set())
+    const selectedRef = useRef<Set<string>>(new Set()) // mirrors `selection` for window handlers
     const dragInfo = useRef<{
         isDragging: boolean;
         isResizing: boolean;
@@ -31,113 +135,141 @@ export default function PianoRoll() {
         originalTick: number;
         originalMidi: number;
         originalLength: number;
+        resizeEdge: 'left' | 'right' | null;
+        originals: Note[]; // every selected note as it was when the drag started
+        historyKey: string; // merges every move of one drag into a single undo step
+    } | null>(null)
+    // Pending click or rubber-band selection started on empty grid
+    const [marquee, setMarquee] = useState<{
+        startX: number;
+        startY: number;
+        x: number;
+        y: number;
+        active: boolean; // true once the mouse has moved far enough to be a drag
+        additive: boolean; // Shift/Ctrl held: add to the existing selection
+        base: Set<string>;
+    } | null>(null)
+    const [pressedKeys, setPressedKeys] = useState<Map<string, number>>(new Map()) // computer key -> midi note it is holding
+    const [octaveShift, setOctaveShift] = useState(0) // octaves the computer keyboard map is moved by
+    // Record mode: notes played while the transport runs are written to the active track
+    const [recording, setRecording] = useState(false)
+    const recordingRef = useRef(false)
+    const [recordSettings, setRecordSettings] = useState<{
+        mode: 'overdub' | 'replace';
+        quantize: boolean; // apply the Quantize settings to each recorded note
+        velocity: 'fixed' | 'random';
+        fixedVelocity: number;
+    }>({ mode: 'overdub', quantize: false, velocity: 'random', fixedVelocity: 100 })
+    const recordSettingsRef = useRef(recordSettings)
+    recordSettingsRef.current = recordSettings
+    // Web MIDI devices are only requested on demand, since the browser asks for permission
+    const midiAccessRef = useRef<MIDIAccess | null>(null)
+    const stopWatchingPortsRef = useRef<() => void>(() => {})
+    const [midiPorts, setMidiPorts] = useState<{ inputs: MidiPort[]; outputs: MidiPort[] } | null>(null) // null until connected
+    const [midiError, setMidiError] = useState<string | null>(null)
+    const [midiSettings, setMidiSettings] = useState<MidiSettings>({ inputId: null, outputId: null, outputChannel: 0, playback: 'synth' })
+    const midiSettingsRef = useRef(midiSettings)
+    midiSettingsRef.current = midiSettings
+    const [midiHeld, setMidiHeld] = useState<Set<number>>(new Set()) // notes held on the MIDI input
+    // Metronome clicks play on the live context only, so they never reach MIDI or WAV exports
+    const [metronome, setMetronome] = useState({ enabled: false, volume: -6, countInBars: 0 })
+    const metronomeRef = useRef(metronome)
+    metronomeRef.current = metronome
+    const clickRef = useRef<{ synth: Tone.Synth; volume: Tone.Volume } | null>(null)
+    const countInRef = useRef<Tone.Synth | null>(null) // clicks of a count-in in progress
+    // The take in progress: notes still held, and the ids written so far (replace mode keeps those)
+    const takeRef = useRef<{
+        historyKey: string;
+        startTick: number;
+        held: Map<number, { tick: number; vel: number }>;
+        recorded: Set<string>;
     } | null>(null)
-    const [pressedKeys, setPressedKeys] = useState<Set<string>>(new Set())
+    const [arp, setArp] = useState<ArpSettings & { live: boolean }>({ ...defaultArpSettings(), live: false })
+    const arpRef = useRef(arp)
+    arpRef.current = arp
+    // Keys held for the live arpeggiator, in the order they were pressed, and where its pattern is
+    const arpLiveRef = useRef<{ held: { midi: number; vel: number }[]; chord: string; step: number; random: Random }>({
+        held: [],
+        chord: '',
+        step: 0,
+        random: createRandom(1)
+    })
     const [samplesLoaded, setSamplesLoaded] = useState(false)
+    const samplesLoadedRef = useRef(samplesLoaded) // for transport callbacks scheduled from older renders
+    samplesLoadedRef.current = samplesLoaded
     const fileInputRef = useRef<HTMLInputElement | null>(null)
+    const projectInputRef = useRef<HTMLInputElement | null>(null)
+    const clipboardRef = useRef<Clip | null>(null) // fallback when the system clipboard is unavailable
+    const mouseTickRef = useRef<number | null>(null) // tick under the mouse while it is over the grid
+    const lastLengthRef = useRef(PPQ / 4) // new notes take the length of the last note placed or resized, like FL Studio
+    const lastVelRef = useRef(80) // ...and the velocity of the last one edited in the velocity lane
+    const [hoverEdge, setHoverEdge] = useState<'left' | 'right' | null>(null)
     
-    // Available instruments
-    const instruments = {
-        piano: () => {
-            // Create an enhanced piano using FMSynth for richer harmonics
-            const piano = new Tone.PolySynth(Tone.FMSynth, {
-                harmonicity: 2.5,
-                modulationIndex: 12,
-                oscillator: {
-                    type: 'triangle'
-                },
-                envelope: {
-                    attack: 0.01,
-                    decay: 0.5,
-                    sustain: 0.4,
-                    release: 2.5
-                },
-                modulation: {
-                    type: 'sine'
-                },
-                modulationEnvelope: {
-                    attack: 0.008,
-                    decay: 0.2,
-                    sustain: 0.3,
-                    release: 1.5
-                }
-            })
-            
-            // High-quality reverb for natural ambience
-            const reverb = new Tone.Reverb({
-                decay: 2.2,
-                wet: 0.3
-            })
-            
-            // Subtle compression for consistency  
-            const compressor = new Tone.Compressor({
-                threshold: -18,
-                ratio: 2.5,
-                attack: 0.005,
-                release: 0.15
-            })
-            
-            // EQ for piano character
-            const eq = new Tone.EQ3({
-                low: 1.5,
-                mid: 0.5,
-                high: -0.5
-            })
-            
-            // Chorus for richness
-            const chorus = new Tone.Chorus({
-                frequency: 2,
-                delayTime: 2.5,
-                depth: 0.3,
-                wet: 0.15
-            })
-            
-            // Connect effects chain
-            piano.connect(compressor)
-            compressor.connect(chorus)
-            chorus.connect(eq)  
-            eq.connect(reverb)
-            reverb.toDestination()
-            
-            // Mark as loaded immediately since no external samples needed
-            setTimeout(() => setSamplesLoaded(true), 100)
-            
-            return piano
-        },
-        guitar: () => new Tone.PolySynth(Tone.Synth).set({
-            oscillator: { type: 'sawtooth' },
-            envelope: { attack: 0.01, decay: 0.2, sustain: 0.3, release: 0.8 }
-        }),
-        bass: () => {
-            const bass = new Tone.PolySynth(Tone.Synth).set({
-                oscillator: { type: 'square' },
-                envelope: { attack: 0.1, decay: 0.3, sustain: 0.4, release: 1.2 }
-            })
-            
-            const bassFilter = new Tone.Filter({
-                type: 'lowpass',
-                frequency: 300,
-                rolloff: -12
-            })
-            
-            bass.connect(bassFilter)
-            bassFilter.toDestination()
-            
-            return bass
-        },
-        bell: () => new Tone.PolySynth(Tone.FMSynth),
-        pad: () => new Tone.PolySynth(Tone.AMSynth)
-    }
-
-
-    const visibleBeats = 16 // four bars of 4/4 by default
+    const visibleBeats = 16 // quarter notes visible at zoom 1 (four bars of 4/4)
     const pianoWidth = 100 // width for piano keys
     const canvasWidth = 1200
     const canvasHeight = 400
+    const velocityLaneHeight = 80
+    const rulerHeight = 24
+    const chordLaneHeight = 22
     const totalKeys = 88 // Full piano range (A0 to C8)
     const keyCount = 36 // Visible keys at once
     const [scrollOffset, setScrollOffset] = useState(24) // Start at middle of piano
-    const topMidi = 108 - scrollOffset // Adjust based on scroll
+    const [keySignature, setKeySignature] = useState<KeySignature>(defaultKey())
+    const [scaleView, setScaleView] = useState({ fold: false, snap: false }) // fold rows to the scale, snap pitches to it
+    // Chord tool: a click on the grid places a whole chord rooted on the clicked row
+    const [chordTool, setChordTool] = useState<ChordShape & { enabled: boolean }>({ enabled: false, type: 'maj', inversion: 0, voicing: 'close' })
+    const [chordDetection, setChordDetection] = useState<'off' | 'beat' | 'bar'>('bar')
+    // Melody suggestions, shown as ghost notes until accepted or rejected
+    const [suggestion, setSuggestion] = useState<{
+        request: SuggestRequest;
+        candidates: SuggestNote[][];
+        index: number;
+        provider: string;
+        warning?: string;
+    } | null>(null)
+    const [suggesting, setSuggesting] = useState(false)
+    // Drum tracks show the drums in use plus favourites (or every GM drum), and can switch to step entry
+    const [drumSettings, setDrumSettings] = useState({ all: false, favourites: defaultFavouriteDrums, step: false })
+    // Keys and scales don't apply to drums
+    const keyActive = hasKey(keySignature) && !drumView
+    // Rows top to bottom: all 88 keys, or only the scale's notes when folded.
+    // Drum rows keep the ones a drag started from, so rows don't shift under the mouse.
+    const pitchRows = (fold: boolean) => drumView
+        ? drumRows([...notes, ...(dragInfo.current?.originals ?? [])], drumSettings.favourites, drumSettings.all)
+        : Array.from({ length: totalKeys }, (_, i) => 108 - i).filter(midi => !(fold && keyActive) || inScale(keySignature, midi))
+    const rows = pitchRows(scaleView.fold)
+    const maxScrollOffset = Math.max(0, rows.length - keyCount)
+    const rowOffset = Math.min(scrollOffset, maxScrollOffset)
+    const rowMidi = (row: number): number | undefined => rows[rowOffset + row]
+    // Visible row of a pitch; when folded, hidden pitches sit on the nearest scale row below
+    const midiRow = (midi: number) => {
+        const index = rows.findIndex(rowPitch => rowPitch <= midi)
+        return (index === -1 ? rows.length - 1 : index) - rowOffset
+    }
+    
+    // Horizontal view: the song is as long as its last note, and the view can
+    // scroll until that note reaches the left edge
+    const [scrollTick, setScrollTick] = useState(0) // first tick at the left edge of the grid
+    const viewTicks = PPQ * visibleBeats / zoom
+    const pixelsPerTick = (canvasWidth - pianoWidth) / viewTicks
+    const songEndTick = Math.max(0, ...tracks.map(track => noteSpan(track.notes).end))
+    const songEndRef = useRef(songEndTick)
+    songEndRef.current = songEndTick
+    const viewTicksRef = useRef(viewTicks)
+    viewTicksRef.current = viewTicks
+    const maxScrollTick = Math.max(0, songEndTick)
+
+    // Chord names for each beat or bar around the view, from every audible track
+    const chordLaneLabels = (() => {
+        if (chordDetection === 'off') return []
+        const lines = beatLines(tempoMap, Math.max(0, scrollTick - PPQ * 16), scrollTick + viewTicks + PPQ * 16, PPQ)
+            .filter(line => chordDetection === 'beat' || line.isBar)
+        const spans = lines.slice(0, -1).map((line, i) => ({ start: line.tick, end: lines[i + 1].tick }))
+        return chordLabels(audibleTracks(tracks).filter(track => !isDrumTrack(track)).flatMap(track => track.notes), spans)
+    })()
+    const tickToX = (tick: number) => pianoWidth + (tick - scrollTick) * pixelsPerTick
+    const xToTick = (x: number) => scrollTick + (x - pianoWidth) / pixelsPerTick
     
     // Keyboard mapping like FL Studio
     const keyboardMap: { [key: string]: number } = {
@@ -193,62 +325,610 @@ export default function PianoRoll() {
         return [1, 3, 6, 8, 10].includes(noteIndex) // C#, D#, F#, G#, A#
     }
 
+    // Row and note labels: drum names on drum tracks, pitches elsewhere
+    const rowLabel = (midi: number) => drumView ? drumName(midi) : getNoteFromMidi(midi)
+    // Drum rows are all drawn as plain (white) rows
+    const isBlackRow = (midi: number) => !drumView && isBlackKey(midi)
 
-    useEffect(() => {
-        // Initialize synth based on selected instrument
-        if (synthRef.current) {
-            synthRef.current.dispose()
+    const clampMidi = (midi: number) => Math.max(21, Math.min(108, midi))
+
+    const select = (ids: Iterable<string>) => {
+        selectedRef.current = new Set(ids)
+        setSelection(selectedRef.current)
+    }
+
+    const selectedNotes = () => notesRef.current.filter(note => selectedRef.current.has(note.id))
+
+    // Stores the selection in the internal clipboard and returns its serialized form
+    const copySelection = () => {
+        const selected = selectedNotes()
+        if (selected.length === 0) return null
+        clipboardRef.current = createClip(selected, PPQ)
+        return serializeClip(clipboardRef.current)
+    }
+
+    const cutSelection = () => {
+        const text = copySelection()
+        if (text) {
+            edit({ label: 'Cut', before: selectedNotes(), after: [] })
+            select([])
         }
-        
-        // Reset loading state when switching instruments
-        if (selectedInstrument === 'piano') {
-            setSamplesLoaded(false)
+        return text
+    }
+
+    // Pastes at the mouse position if it is over the grid, else at the playhead
+    const pasteClip = (clip: Clip | null) => {
+        if (!clip) return
+        const target = mouseTickRef.current ?? cursorTickRef.current
+        const tick = snapTick(target, gridRef.current)
+        const pasted = clipToNotes(clip, tick, PPQ).filter(note => note.midi >= 21 && note.midi <= 108)
+        edit({ label: 'Paste', before: [], after: pasted })
+        select(pasted.map(note => note.id))
+    }
+
+    // Places a copy of the selection right after its end, rounded up to the grid
+    const duplicateSelection = () => {
+        const selected = selectedNotes()
+        if (selected.length === 0) return
+        const { start, end } = noteSpan(selected)
+        const step = gridRef.current
+        const offset = step ? Math.max(step, Math.ceil((end - start) / step) * step) : end - start
+        const copies = cloneNotes(selected, offset)
+        edit({ label: 'Duplicate', before: [], after: copies })
+        select(copies.map(note => note.id))
+    }
+
+    // Quantizes the selection, or every note when nothing is selected
+    const quantizeSelection = () => {
+        const targets = selectedRef.current.size ? selectedNotes() : notesRef.current
+        if (!gridRef.current || targets.length === 0) return
+        edit({
+            label: 'Quantize',
+            before: targets,
+            after: quantizeNotes(targets, { ...quantizeSettings, grid: gridRef.current })
+        })
+    }
+
+    // Moves the selection, or every note when nothing is selected, to the nearest note of the key
+    const conformSelection = () => {
+        const targets = selectedRef.current.size ? selectedNotes() : notesRef.current
+        if (!keyActive || targets.length === 0) return
+        edit({
+            label: 'Conform to scale',
+            before: targets,
+            after: conformToScale(targets, keySignature).map(note => ({ ...note, midi: clampMidi(note.midi) }))
+        })
+    }
+
+    // Runs a transform from lib/transforms over the selection, or every note when nothing is selected
+    const applyTransform = (label: string, transform: (notes: Note[]) => Note[]) => {
+        const targets = selectedRef.current.size ? selectedNotes() : notesRef.current
+        if (targets.length === 0) return
+        edit({ label, before: targets, after: transform(targets) })
+    }
+
+    // Replaces the selected chords (or every note) with their arpeggio
+    const renderArpeggioToNotes = () => {
+        const targets = selectedRef.current.size ? selectedNotes() : notesRef.current
+        const rendered = renderArpeggio(targets, arp, snapTicks(arp.rate, PPQ))
+        if (rendered.length === 0) return
+        edit({ label: 'Arpeggiate', before: targets, after: rendered })
+        select(rendered.map(note => note.id))
+    }
+
+    // Folding keeps the pitch at the top of the view where it was
+    const setFold = (fold: boolean) => {
+        const topPitch = rows[rowOffset]
+        const index = pitchRows(fold).findIndex(midi => midi <= topPitch)
+        setScrollOffset(Math.max(0, index))
+        setScaleView({ ...scaleView, fold })
+    }
+
+    // Asks /api/suggest for continuations of the active track over the loop
+    // region (up to the longest range the API takes), or the next two bars from the
+    // playhead; without a server (or offline) the built-in Markov model runs in the browser instead
+    const requestSuggestions = () => {
+        const start = loop.enabled ? loop.start : cursorTick
+        const end = loop.enabled ? loop.end : barToTick(tempoMap, tickToBar(tempoMap, start, PPQ) + 2, PPQ)
+        fetchSuggestions({
+            notes: notesRef.current.map(({ id, ...note }) => note),
+            ppq: PPQ,
+            bpm: projectBpm,
+            key: keySignature,
+            range: { start, end: Math.min(end, start + maxSuggestTicks(PPQ)) },
+            count: 3,
+            seed: Date.now()
+        })
+    }
+
+    const fetchSuggestions = async (request: SuggestRequest) => {
+        setSuggesting(true)
+        try {
+            let result: SuggestResponse
+            try {
+                const response = await fetch('/api/suggest', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(request)
+                })
+                const data = await response.json()
+                if (!response.ok) throw new Error(data.error ?? `Server answered ${response.status}`)
+                result = data
+            } catch (error) {
+                const local = markovProvider()
+                result = {
+                    provider: local.name,
+                    candidates: (await local.suggest(request))
+                        .map(candidate => clampToRange(candidate, request.range))
+                        .filter(candidate => candidate.length > 0),
+                    warning: `Suggestion server unavailable (${(error as Error).message}); generated locally`
+                }
+            }
+            if (result.candidates.length === 0) {
+                setSuggestion(null)
+                alert('No suggestions for this range')
+                return
+            }
+            setSuggestion({ request, candidates: result.candidates, index: 0, provider: result.provider, warning: result.warning })
+        } finally {
+            setSuggesting(false)
+        }
+    }
+
+    const nextSuggestion = () => {
+        if (!suggestion) return
+        if (suggestion.index + 1 < suggestion.candidates.length) {
+            setSuggestion({ ...suggestion, index: suggestion.index + 1 })
         } else {
-            setSamplesLoaded(true) // Other instruments don't need loading
+            // Out of candidates: ask again for the same range with a new seed
+            fetchSuggestions({ ...suggestion.request, seed: suggestion.request.seed + 1 })
         }
-        
-        synthRef.current = instruments[selectedInstrument as keyof typeof instruments]().toDestination()
-        Tone.Transport.bpm.value = BPM
+    }
+
+    const acceptSuggestion = () => {
+        const candidate = suggestion?.candidates[suggestion.index]
+        if (!candidate) return
+        const accepted = candidate.map(note => ({ ...note, id: newNoteId() }))
+        edit({ label: 'Accept suggestion', before: [], after: accepted })
+        select(accepted.map(note => note.id))
+        setSuggestion(null)
+    }
+
+    // Replaces the tracks, keeping the ref in step for handlers that run before the next render
+    const updateTracks = (next: Track[]) => {
+        tracksRef.current = next
+        setTracks(next)
+    }
+
+    const updateTrack = (id: string, patch: Partial<Track>) => {
+        updateTracks(tracksRef.current.map(track => track.id === id ? { ...track, ...patch } : track))
+    }
+
+    const applyNoteChange = (change: Change<Note, TempoMap>) => {
+        if (change.state) {
+            tempoMapRef.current = change.state.after
+            setTempoMap(change.state.after)
+        }
+        const trackId = change.scope ?? activeTrackIdRef.current
+        updateTracks(tracksRef.current.map(track =>
+            track.id === trackId ? { ...track, notes: applyChange(track.notes, change) } : track
+        ))
+        if (trackId === activeTrackIdRef.current) {
+            notesRef.current = tracksRef.current.find(track => track.id === trackId)!.notes
+        }
+    }
+
+    // All note edits go through here so they can be undone; they apply to the active track
+    const edit = (change: Change<Note, TempoMap>) => {
+        if (isEmptyChange(change)) return
+        const scoped = { ...change, scope: activeTrackIdRef.current }
+        applyNoteChange(scoped)
+        historyRef.current = pushChange(historyRef.current, scoped)
+    }
+
+    // Tempo and meter edits belong to no track, so they survive track deletion
+    const editTempoMap = (label: string, next: TempoMap) => {
+        const change: Change<Note, TempoMap> = { label, before: [], after: [], state: { before: tempoMapRef.current, after: next } }
+        applyNoteChange(change)
+        historyRef.current = pushChange(historyRef.current, change)
+    }
+
+    // Undo/redo jump to the track the change was made on
+    const showTrack = (trackId: string | undefined) => {
+        if (!trackId || trackId === activeTrackIdRef.current) return
+        if (!tracksRef.current.some(track => track.id === trackId)) return
+        activeTrackIdRef.current = trackId
+        setActiveTrackId(trackId)
+    }
+
+    const undo = () => {
+        const step = undoChange(historyRef.current)
+        if (!step) return
+        historyRef.current = step.history
+        showTrack(step.change.scope)
+        applyNoteChange(step.change)
+        select(step.change.after.map(note => note.id))
+    }
+
+    const redo = () => {
+        const step = redoChange(historyRef.current)
+        if (!step) return
+        historyRef.current = step.history
+        showTrack(step.change.scope)
+        applyNoteChange(step.change)
+        select(step.change.after.map(note => note.id))
+    }
+
+    const activeSynth = () => voicesRef.current.get(activeTrackIdRef.current)?.synth
+
+    const selectTrack = (id: string) => {
+        if (id === activeTrackIdRef.current) return
+        activeTrackIdRef.current = id
+        setActiveTrackId(id)
+        select([])
+    }
+
+    // Sound designer: edits go to the active track's preset and are heard straight away
+    const activePreset = presets.find(preset => preset.id === activeTrack.instrument) ?? null
+
+    const changePreset = (preset: InstrumentPreset) => {
+        setPresets(presetsRef.current.map(p => p.id === preset.id ? preset : p))
+    }
+
+    // Adds a copy of the active preset (or an imported one) and gives it to the active track
+    const addPreset = (preset: InstrumentPreset) => {
+        setPresets([...presetsRef.current, preset])
+        if (!isDrumTrack(activeTrack)) updateTrack(activeTrack.id, { instrument: preset.id })
+    }
+
+    const deletePreset = () => {
+        if (!activePreset || presets.length === 1) return
+        const users = tracks.filter(track => track.instrument === activePreset.id)
+        if (users.length > 1 && !confirm(`${users.length} tracks use "${activePreset.name}". Delete it anyway?`)) return
+        const remaining = presets.filter(preset => preset.id !== activePreset.id)
+        setPresets(remaining)
+        updateTracks(tracksRef.current.map(track =>
+            track.instrument === activePreset.id ? { ...track, instrument: remaining[0].id } : track
+        ))
+    }
+
+    const exportPreset = () => {
+        if (!activePreset) return
+        downloadFile(new Blob([serializePreset(activePreset)], { type: 'application/json' }), `${activePreset.name || 'preset'}.json`)
+    }
+
+    const importPreset = async (file: File) => {
+        try {
+            addPreset(parsePreset(await file.text()))
+        } catch (error) {
+            alert(`Could not import ${file.name}: ${(error as Error).message}`)
+        }
+    }
+
+    // Sampler: audio files go into IndexedDB and are mapped onto the active preset
+    const addSamples = async (files: File[]) => {
+        if (!activePreset) return
+        try {
+            const { sampler, unmapped } = await importSamples(files, activePreset.sampler ?? emptySampler())
+            const latest = presetsRef.current.find(preset => preset.id === activePreset.id)
+            if (latest) changePreset({ ...latest, voice: 'sampler', sampler })
+            if (unmapped.length) {
+                alert(`No note name found in ${unmapped.length} file name(s), so they play from C4: ${unmapped.slice(0, 5).join(', ')}`)
+            }
+        } catch (error) {
+            alert(`Could not add samples: ${(error as Error).message}`)
+        }
+    }
+
+    const reportSampleProgress = () => {
+        let loaded = 0
+        let total = 0
+        sampleLoadsRef.current.forEach(load => {
+            loaded += load.loaded
+            total += load.total
+        })
+        setSampleProgress(total ? { loaded, total } : null)
+    }
+
+    const addTrack = () => {
+        const track = createTrack(`Track ${tracksRef.current.length + 1}`, selectedInstrument)
+        updateTracks([...tracksRef.current, track])
+        selectTrack(track.id)
+    }
+
+    const removeTrack = (id: string) => {
+        const track = tracksRef.current.find(t => t.id === id)
+        if (!track || tracksRef.current.length === 1) return
+        if (track.notes.length && !confirm(`Delete "${track.name}" and its ${track.notes.length} notes?`)) return
+        const remaining = tracksRef.current.filter(t => t.id !== id)
+        // Edits on a deleted track can't be undone any more
+        historyRef.current = {
+            undo: historyRef.current.undo.filter(change => change.scope !== id),
+            redo: historyRef.current.redo.filter(change => change.scope !== id)
+        }
+        updateTracks(remaining)
+        if (id === activeTrackIdRef.current) selectTrack(remaining[0].id)
+    }
+
+    // Keep one synth and channel strip per track, rebuilding a track's synth when its instrument changes.
+    // Preset edits are applied to the running synth where possible, so held notes keep sounding.
+    useEffect(() => {
+        const voices = voicesRef.current
+        const presetFor = (instrument: string) => presets.find(preset => preset.id === instrument)
+        voices.forEach((voice, id) => {
+            const track = tracks.find(t => t.id === id)
+            const preset = track && presetFor(track.instrument)
+            if (track && track.instrument === voice.instrument && preset !== voice.preset) {
+                if (preset && voice.update?.(preset)) voice.preset = preset
+                else voice.instrument = '' // the chain changed shape: rebuild below
+            }
+            if (!track || track.instrument !== voice.instrument) {
+                voice.synth.dispose()
+                voice.channel.dispose()
+                voices.delete(id)
+            }
+        })
+        tracks.forEach(track => {
+            let voice = voices.get(track.id)
+            if (!voice) {
+                const channel = new Tone.Channel().toDestination()
+                const load = {}
+                const built = buildInstrument(track.instrument, presets, channel, {
+                    onProgress: (loaded, total) => {
+                        sampleLoadsRef.current.set(load, { loaded, total })
+                        reportSampleProgress()
+                    },
+                    onSample: (zone, error) => setSampleErrors(errors => {
+                        if (!error && !(zone.sample in errors)) return errors
+                        const { [zone.sample]: _, ...rest } = errors
+                        return error ? { ...rest, [zone.sample]: error } : rest
+                    })
+                })
+                pendingLoadsRef.current++
+                setSamplesLoaded(false)
+                built.ready.finally(() => {
+                    pendingLoadsRef.current--
+                    sampleLoadsRef.current.delete(load)
+                    reportSampleProgress()
+                    if (pendingLoadsRef.current === 0) setSamplesLoaded(true)
+                })
+                voice = { instrument: track.instrument, preset: presetFor(track.instrument), synth: built.synth, update: built.update, channel }
+                voices.set(track.id, voice)
+            }
+            voice.channel.volume.value = track.volume
+            voice.channel.pan.value = track.pan
+        })
+    }, [tracks, presets])
+
+    useEffect(() => {
         return () => {
             Tone.Transport.stop()
+            voicesRef.current.forEach(voice => {
+                voice.synth.dispose()
+                voice.channel.dispose()
+            })
+            voicesRef.current.clear()
+            clickRef.current?.synth.dispose()
+            clickRef.current?.volume.dispose()
+            countInRef.current?.dispose()
+        }
+    }, [])
+
+    useEffect(() => {
+        if (clickRef.current) clickRef.current.volume.volume.value = metronome.volume
+    }, [metronome.volume])
+
+    // Notes are scheduled in seconds from the tempo map, so the transport
+    // only needs the base tempo (it keeps Transport.seconds linear)
+    useEffect(() => {
+        Tone.Transport.bpm.value = projectBpm
+    }, [projectBpm])
+
+    // Pick up edits (and mute/solo changes) during playback on the next pass
+    useEffect(() => {
+        if (Tone.Transport.state !== 'stopped') scheduleNotes()
+    }, [tracks, tempoMap, midiSettings, metronome.enabled, arp.live, arp.rate])
+
+    useEffect(() => {
+        Tone.Transport.loop = loop.enabled && loop.end > loop.start
+        Tone.Transport.setLoopPoints(tickToSeconds(tempoMap, loop.start, PPQ), tickToSeconds(tempoMap, loop.end, PPQ))
+    }, [loop, tempoMap])
+
+    const transportTick = () => secondsToTick(tempoMapRef.current, Tone.Transport.seconds, PPQ)
+
+    // The take in progress, starting one at the current position if needed
+    const currentTake = () => {
+        if (!takeRef.current) {
+            takeRef.current = { historyKey: `record_${Date.now()}`, startTick: transportTick(), held: new Map(), recorded: new Set() }
+        }
+        return takeRef.current
+    }
+
+    const recordNoteOn = (midi: number, vel: number) => {
+        if (!recordingRef.current || Tone.Transport.state !== 'started') return
+        currentTake().held.set(midi, { tick: transportTick(), vel })
+    }
+
+    const recordNoteOff = (midi: number) => {
+        const take = takeRef.current
+        const start = take?.held.get(midi)
+        if (!take || !start) return
+        take.held.delete(midi)
+
+        let end = transportTick()
+        const loopNow = loopRef.current
+        // Released after the loop jumped back: the note ran to the loop end
+        if (end < start.tick) end = loopNow.enabled ? loopNow.end : start.tick
+        let note: Note = { id: newNoteId(), tick: start.tick, length: Math.max(1, Math.round(end - start.tick)), midi, vel: start.vel }
+        if (recordSettingsRef.current.quantize && gridRef.current) {
+            note = quantizeNotes([note], { ...quantizeSettingsRef.current, grid: gridRef.current })[0]
+        }
+        writeTakeNote(take, note)
+    }
+
+    // Adds a finished note to the take (played notes on release, live arpeggio notes as they sound)
+    const writeTakeNote = (take: NonNullable<typeof takeRef.current>, note: Note) => {
+        take.recorded.add(note.id)
+        const loopNow = loopRef.current
+        // Replace clears what was there in the stretch of song this take has swept
+        let replaced: Note[] = []
+        if (recordSettingsRef.current.mode === 'replace') {
+            const now = transportTick()
+            const [from, to] = now >= take.startTick
+                ? [take.startTick, now]
+                : [Math.min(take.startTick, loopNow.start), loopNow.end]
+            replaced = notesRef.current.filter(n => !take.recorded.has(n.id) && n.tick >= from && n.tick <= to)
+        }
+        // One undo step per take
+        edit({ label: 'Record', before: replaced, after: [note], mergeKey: take.historyKey })
+    }
+
+    // Ends the take, writing any notes still held at the current position
+    const finishTake = () => {
+        if (takeRef.current && Tone.Transport.state !== 'stopped') {
+            Array.from(takeRef.current.held.keys()).forEach(recordNoteOff)
+        }
+        takeRef.current = null
+    }
+
+    const toggleRecord = () => {
+        const next = !recordingRef.current
+        if (!next) finishTake()
+        recordingRef.current = next
+        setRecording(next)
+        if (next && !isPlayingRef.current) play()
+    }
+
+    const noteVelocity = () => recordSettings.velocity === 'fixed'
+        ? recordSettings.fixedVelocity
+        : Math.round((0.5 + Math.random() * 0.3) * 127)
+
+    // Notes played live (computer keyboard) sound on the active track and are recorded when armed
+    const liveNoteOn = (midi: number, vel: number) => {
+        // With the live arpeggiator on, held keys only feed the pattern (see scheduleNotes)
+        if (arpRef.current.live && Tone.Transport.state === 'started') {
+            arpLiveRef.current.held.push({ midi, vel })
+            return
+        }
+        // Only play if samples are loaded (for piano) or if it's not piano
+        if (samplesLoaded) {
+            activeSynth()?.triggerAttack(Tone.Frequency(midi, 'midi').toNote(), undefined, vel / 127)
+        }
+        recordNoteOn(midi, vel)
+    }
+
+    const liveNoteOff = (midi: number) => {
+        const held = arpLiveRef.current.held
+        const index = held.findIndex(note => note.midi === midi)
+        if (index >= 0) {
+            held.splice(index, 1)
+            return
+        }
+        if (samplesLoaded) {
+            activeSynth()?.triggerRelease(Tone.Frequency(midi, 'midi').toNote())
+        }
+        recordNoteOff(midi)
+    }
+
+    const connectMidi = async () => {
+        try {
+            const access = await requestMidiAccess()
+            midiAccessRef.current = access
+            // Hot-plugging: the port lists (and the input listener below) follow device changes
+            stopWatchingPortsRef.current()
+            stopWatchingPortsRef.current = watchPorts(access, setMidiPorts)
+            const ports = listPorts(access)
+            setMidiPorts(ports)
+            setMidiError(null)
+            if (!midiSettingsRef.current.inputId && ports.inputs.length) {
+                setMidiSettings(settings => ({ ...settings, inputId: ports.inputs[0].id }))
+            }
+        } catch (error) {
+            setMidiError((error as Error).message)
+        }
+    }
+
+    // MIDI input plays like the computer keyboard, with the controller's own velocity
+    const midiNoteRef = useRef<(message: MidiNoteMessage) => void>(() => {})
+    midiNoteRef.current = (message: MidiNoteMessage) => {
+        if (message.type === 'noteon') {
+            liveNoteOn(message.midi, recordSettings.velocity === 'fixed' ? recordSettings.fixedVelocity : message.vel)
+            setMidiHeld(prev => new Set(prev).add(message.midi))
+        } else {
+            liveNoteOff(message.midi)
+            setMidiHeld(prev => {
+                const next = new Set(prev)
+                next.delete(message.midi)
+                return next
+            })
+        }
+    }
+    const midiHeldRef = useRef(midiHeld)
+    midiHeldRef.current = midiHeld
+    useEffect(() => {
+        const access = midiAccessRef.current
+        if (!access || !midiSettings.inputId) return
+        const stopListening = listenToInput(access, midiSettings.inputId, message => midiNoteRef.current(message))
+        return () => {
+            stopListening()
+            // Don't leave notes hanging when the device goes away or another input is picked
+            midiHeldRef.current.forEach(midi => midiNoteRef.current({ type: 'noteoff', channel: 0, midi, vel: 0 }))
         }
-    }, [selectedInstrument])
+    }, [midiPorts, midiSettings.inputId])
+
+    useEffect(() => {
+        return () => stopWatchingPortsRef.current()
+    }, [])
+
+    const midiOutput = () => {
+        const { outputId } = midiSettingsRef.current
+        return outputId ? midiAccessRef.current?.outputs.get(outputId) : undefined
+    }
+
+    // Drops queued messages and stops anything still sounding on the output
+    const silenceMidiOutput = () => {
+        const output = midiOutput()
+        if (!output) return
+        silenceOutput(output, midiSettingsRef.current.outputChannel)
+        if (tracksRef.current.some(isDrumTrack)) silenceOutput(output, DRUM_CHANNEL)
+    }
+
+    // Shifting keeps the whole map on the 88 keys (A0-C8)
+    const minOctaveShift = -3
+    const maxOctaveShift = 2
 
     // Keyboard event handlers
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
+            // Leave Ctrl/Cmd combinations to the editing shortcuts, and typing to inputs
+            if (e.ctrlKey || e.metaKey) return
+            // Sliders (e.g. the sound designer) don't take letters, so keys still play while one has focus
+            if (e.target instanceof HTMLInputElement && e.target.type !== 'range') return
             const key = e.key.toLowerCase()
+            if (key === '-' || key === '=') {
+                e.preventDefault()
+                setOctaveShift(shift => Math.max(minOctaveShift, Math.min(maxOctaveShift, shift + (key === '=' ? 1 : -1))))
+                return
+            }
             if (keyboardMap[key] && !pressedKeys.has(key)) {
                 e.preventDefault()
-                const midi = keyboardMap[key]
-                const velocity = 0.5 + Math.random() * 0.3
-                
-                // Only play if samples are loaded (for piano) or if it's not piano
-                if (selectedInstrument !== 'piano' || samplesLoaded) {
-                    const note = Tone.Frequency(midi, 'midi').toNote()
-                    synthRef.current?.triggerAttack(note, undefined, velocity)
-                }
-                
-                setPressedKeys(prev => new Set(prev.add(key)))
+                const midi = keyboardMap[key] + octaveShift * 12
+                liveNoteOn(midi, noteVelocity())
+                setPressedKeys(prev => new Map(prev).set(key, midi))
             }
         }
         
         const handleKeyUp = (e: KeyboardEvent) => {
             const key = e.key.toLowerCase()
-            if (keyboardMap[key] && pressedKeys.has(key)) {
+            const midi = pressedKeys.get(key)
+            if (midi !== undefined) {
                 e.preventDefault()
-                const midi = keyboardMap[key]
-                
-                // Only release if samples are loaded (for piano) or if it's not piano
-                if (selectedInstrument !== 'piano' || samplesLoaded) {
-                    const note = Tone.Frequency(midi, 'midi').toNote()
-                    synthRef.current?.triggerRelease(note)
-                }
-                
+                // Release the note the key started, even if the octave moved since
+                liveNoteOff(midi)
                 setPressedKeys(prev => {
-                    const newSet = new Set(prev)
-                    newSet.delete(key)
-                    return newSet
+                    const next = new Map(prev)
+                    next.delete(key)
+                    return next
                 })
             }
         }
@@ -260,7 +940,7 @@ export default function PianoRoll() {
             window.removeEventListener('keydown', handleKeyDown)
             window.removeEventListener('keyup', handleKeyUp)
         }
-    }, [pressedKeys, keyboardMap, selectedInstrument, samplesLoaded])
+    }, [pressedKeys, keyboardMap, octaveShift, selectedInstrument, samplesLoaded])
 
     // Piano roll keyboard shortcuts
     useEffect(() => {
@@ -269,23 +949,51 @@ export default function PianoRoll() {
             if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
             
             switch (e.key) {
+                case ' ':
+                    // Buttons already react to Space themselves
+                    if (e.target instanceof HTMLButtonElement) break
+                    e.preventDefault()
+                    togglePlay()
+                    break
                 case 'Delete':
                 case 'Backspace':
-                    if (selectedRef.current) {
-                        setNotes(prevNotes => prevNotes.filter(note => note.id !== selectedRef.current))
-                        selectedRef.current = null
+                    if (selectedRef.current.size) {
+                        edit({ label: 'Delete notes', before: selectedNotes(), after: [] })
+                        select([])
                     }
                     break
                 case 'Escape':
-                    selectedRef.current = null
+                    select([])
                     dragInfo.current = null
+                    setMarquee(null)
                     break
                 case 'a':
                 case 'A':
                     if (e.ctrlKey || e.metaKey) {
                         e.preventDefault()
-                        // Select all notes (future implementation)
-                        console.log('Select all - not implemented yet')
+                        select(notesRef.current.map(note => note.id))
+                    }
+                    break
+                case 'z':
+                case 'Z':
+                    if (e.ctrlKey || e.metaKey) {
+                        e.preventDefault()
+                        if (e.shiftKey) redo()
+                        else undo()
+                    }
+                    break
+                case 'y':
+                case 'Y':
+                    if (e.ctrlKey || e.metaKey) {
+                        e.preventDefault()
+                        redo()
+                    }
+                    break
+                case 'd':
+                case 'D':
+                    if (e.ctrlKey || e.metaKey) {
+                        e.preventDefault()
+                        duplicateSelection()
                     }
                     break
             }
@@ -295,6 +1003,47 @@ export default function PianoRoll() {
         return () => window.removeEventListener('keydown', handleKeyDown)
     }, [])
 
+    // Copy/cut/paste go through the clipboard events so the notes also reach
+    // the system clipboard (and other piano-roll tabs) without a permission prompt
+    useEffect(() => {
+        const isTyping = (e: Event) =>
+            e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement
+
+        const handleCopy = (e: ClipboardEvent) => {
+            if (isTyping(e)) return
+            const text = copySelection()
+            if (!text) return
+            e.preventDefault()
+            e.clipboardData?.setData('text/plain', text)
+        }
+
+        const handleCut = (e: ClipboardEvent) => {
+            if (isTyping(e)) return
+            const text = cutSelection()
+            if (!text) return
+            e.preventDefault()
+            e.clipboardData?.setData('text/plain', text)
+        }
+
+        const handlePaste = (e: ClipboardEvent) => {
+            if (isTyping(e)) return
+            const text = e.clipboardData?.getData('text/plain')
+            const clip = (text && parseClip(text)) || clipboardRef.current
+            if (!clip) return
+            e.preventDefault()
+            pasteClip(clip)
+        }
+
+        window.addEventListener('copy', handleCopy)
+        window.addEventListener('cut', handleCut)
+        window.addEventListener('paste', handlePaste)
+        return () => {
+            window.removeEventListener('copy', handleCopy)
+            window.removeEventListener('cut', handleCut)
+            window.removeEventListener('paste', handlePaste)
+        }
+    }, [])
+
 
     // Setup canvas size (separate from drawing)
     useEffect(() => {
@@ -329,18 +1078,18 @@ export default function PianoRoll() {
 
         // Draw piano keys sidebar
         const keyHeight = h / keyCount
+        const heldMidi = new Set([...Array.from(pressedKeys.values()), ...Array.from(midiHeld)])
         
         // First draw all white keys
         for (let i = 0; i < keyCount; i++) {
-            const midi = topMidi - i
+            const midi = rowMidi(i)
+            if (midi === undefined) break
             const y = i * keyHeight
-            const isBlack = isBlackKey(midi)
+            const isBlack = isBlackRow(midi)
             
             if (!isBlack) {
                 // Check if key is being pressed via keyboard
-                const isPressed = Object.entries(keyboardMap).some(([key, keyMidi]) => 
-                    keyMidi === midi && pressedKeys.has(key)
-                )
+                const isPressed = heldMidi.has(midi)
                 
                 // White key background - highlight if pressed
                 ctx.fillStyle = isPressed ? '#d4627a' : '#e8eaf0'
@@ -355,21 +1104,20 @@ export default function PianoRoll() {
                 ctx.fillStyle = isPressed ? '#ffffff' : '#2d3142'
                 ctx.font = '10px Arial, sans-serif'
                 ctx.textAlign = 'right'
-                ctx.fillText(getNoteFromMidi(midi), pianoWidth - 8, y + keyHeight / 2 + 3)
+                ctx.fillText(rowLabel(midi), pianoWidth - 8, y + keyHeight / 2 + 3)
             }
         }
         
         // Then draw black keys on top
         for (let i = 0; i < keyCount; i++) {
-            const midi = topMidi - i
+            const midi = rowMidi(i)
+            if (midi === undefined) break
             const y = i * keyHeight
-            const isBlack = isBlackKey(midi)
+            const isBlack = isBlackRow(midi)
             
             if (isBlack) {
                 // Check if key is being pressed via keyboard
-                const isPressed = Object.entries(keyboardMap).some(([key, keyMidi]) => 
-                    keyMidi === midi && pressedKeys.has(key)
-                )
+                const isPressed = heldMidi.has(midi)
                 
                 // Black key - smaller and offset
                 const blackKeyWidth = pianoWidth * 0.6
@@ -385,24 +1133,31 @@ export default function PianoRoll() {
                 ctx.fillStyle = isPressed ? '#ffffff' : '#9ba3af'
                 ctx.font = '9px Arial, sans-serif'
                 ctx.textAlign = 'right'
-                ctx.fillText(getNoteFromMidi(midi), blackKeyWidth - 4, y + keyHeight / 2 + 3)
+                ctx.fillText(rowLabel(midi), blackKeyWidth - 4, y + keyHeight / 2 + 3)
             }
         }
 
-        // Grid area (right of piano keys)
+        // Grid area (right of piano keys); nothing below may spill over the keys
         const gridX = pianoWidth
         const gridWidth = w - pianoWidth
-        const totalTicks = PPQ * 4 * (visibleBeats / 4) / zoom
-        const pixelsPerTick = gridWidth / totalTicks
+        ctx.save()
+        ctx.beginPath()
+        ctx.rect(gridX, 0, gridWidth, h)
+        ctx.clip()
         
         // Horizontal grid lines (piano roll rows)
         for (let i = 0; i < keyCount; i++) {
             const y = i * keyHeight
-            const midi = topMidi - i
-            const isBlack = isBlackKey(midi)
+            const midi = rowMidi(i)
+            if (midi === undefined) break
+            const isBlack = isBlackRow(midi)
             
-            // Row background - FL Studio style
-            ctx.fillStyle = isBlack ? '#434951' : '#4a5058'
+            // Row background - FL Studio style, tinted green for the key's notes (and more for its root)
+            if (keyActive && inScale(keySignature, midi)) {
+                ctx.fillStyle = (midi - keySignature.root) % 12 === 0 ? '#566658' : '#4d5a52'
+            } else {
+                ctx.fillStyle = isBlack ? '#434951' : '#4a5058'
+            }
             ctx.fillRect(gridX, y, gridWidth, keyHeight)
             
             // Horizontal line
@@ -414,11 +1169,11 @@ export default function PianoRoll() {
             ctx.stroke()
         }
         
-        // Vertical grid lines (beats)
-        for (let beat = 0; beat <= visibleBeats; beat++) {
-            const x = gridX + (beat * PPQ * pixelsPerTick)
+        // Vertical grid lines (beats), following the time signatures
+        beatLines(tempoMap, scrollTick, scrollTick + viewTicks, PPQ).forEach(line => {
+            const x = tickToX(line.tick)
             
-            if (beat % 4 === 0) {
+            if (line.isBar) {
                 // Bar lines (stronger) - FL Studio orange-ish
                 ctx.strokeStyle = '#7a6855'
                 ctx.lineWidth = 1.5
@@ -432,11 +1187,13 @@ export default function PianoRoll() {
             ctx.moveTo(x, 0)
             ctx.lineTo(x, h)
             ctx.stroke()
-        }
+        })
         
-        // Sub-beat lines (16th notes)
-        for (let subBeat = 0; subBeat < visibleBeats * 4; subBeat++) {
-            const x = gridX + (subBeat * PPQ / 4 * pixelsPerTick)
+        // Sub-beat lines at the snap value, unless they would be too dense to read
+        const firstSubBeat = grid ? Math.floor(scrollTick / grid) : 0
+        const subBeatCount = grid && grid * pixelsPerTick >= 4 ? Math.ceil(viewTicks / grid) + 1 : 0
+        for (let subBeat = firstSubBeat; subBeat < firstSubBeat + subBeatCount; subBeat++) {
+            const x = tickToX(subBeat * grid)
             
             ctx.strokeStyle = '#4a5058'
             ctx.lineWidth = 0.3
@@ -447,19 +1204,37 @@ export default function PianoRoll() {
         }
 
 
+        // Other tracks' notes as faint ghosts behind the active track (drums only behind drums)
+        tracks.forEach(track => {
+            if (track.id === activeTrack.id || isDrumTrack(track) !== drumView) return
+            ctx.fillStyle = 'rgba(232, 234, 240, 0.12)'
+            ctx.strokeStyle = 'rgba(232, 234, 240, 0.25)'
+            ctx.lineWidth = 1
+            track.notes.forEach(n => {
+                const x = tickToX(n.tick)
+                const noteW = n.length * pixelsPerTick
+                if (x + noteW < gridX || x > w) return
+                const noteY = midiRow(n.midi) * keyHeight + 2
+                ctx.fillRect(x, noteY, noteW, keyHeight - 4)
+                ctx.strokeRect(x, noteY, noteW, keyHeight - 4)
+            })
+        })
+
         // Draw notes - FL Studio style
         notes.forEach((n) => {
-            const x = gridX + n.tick * pixelsPerTick
+            const x = tickToX(n.tick)
             const noteW = n.length * pixelsPerTick
-            const noteIndex = topMidi - n.midi
+            if (x + noteW < gridX || x > w) return // off screen
+            const noteIndex = midiRow(n.midi)
             const noteY = noteIndex * keyHeight + 2
             const noteH = keyHeight - 4
             
             // Note background - FL Studio green/red style with drag feedback
-            const isDragging = dragInfo.current?.noteId === n.id
-            if (selectedRef.current === n.id || isDragging) {
+            const isSelected = selection.has(n.id)
+            const isDragging = isSelected && !!dragInfo.current?.isDragging
+            if (isSelected) {
                 // Selected/dragging note - red/pink with glow effect
-                ctx.fillStyle = isDragging ? '#e44d6d' : '#d4627a'
+                ctx.fillStyle = isDragging ? '#e44d6d' : velocityColor(n.vel, true)
                 ctx.fillRect(x, noteY, noteW, noteH)
                 ctx.strokeStyle = isDragging ? '#ff5577' : '#c55569'
                 
@@ -471,8 +1246,8 @@ export default function PianoRoll() {
                     ctx.shadowBlur = 0
                 }
             } else {
-                // Unselected note - green
-                ctx.fillStyle = '#7fb069'
+                // Unselected note - green, brighter when louder
+                ctx.fillStyle = velocityColor(n.vel, false)
                 ctx.fillRect(x, noteY, noteW, noteH)
                 ctx.strokeStyle = '#6a9655'
             }
@@ -481,8 +1256,18 @@ export default function PianoRoll() {
             ctx.lineWidth = 1
             ctx.strokeRect(x, noteY, noteW, noteH)
             
+            // Out-of-key notes get a dashed warning outline
+            if (keyActive && !inScale(keySignature, n.midi)) {
+                ctx.strokeStyle = '#f0a030'
+                ctx.lineWidth = 2
+                ctx.setLineDash([4, 2])
+                ctx.strokeRect(x - 1, noteY - 1, noteW + 2, noteH + 2)
+                ctx.setLineDash([])
+                ctx.lineWidth = 1
+            }
+            
             // Note name label (like in FL Studio)
-            const noteName = getNoteFromMidi(n.midi)
+            const noteName = rowLabel(n.midi)
             ctx.fillStyle = '#2d3142'
             ctx.font = '10px Arial, sans-serif'
             ctx.textAlign = 'left'
@@ -491,10 +1276,40 @@ export default function PianoRoll() {
             }
         })
 
-        // Draw playhead cursor
-        if (isPlaying) {
-            const cursorX = gridX + cursorTick * pixelsPerTick
-            ctx.strokeStyle = '#ff4444'
+        // Suggested notes, see-through until accepted
+        suggestion?.candidates[suggestion.index]?.forEach(n => {
+            const x = tickToX(n.tick)
+            const noteW = n.length * pixelsPerTick
+            const row = midiRow(n.midi)
+            if (x + noteW < gridX || x > w || row < 0 || row >= keyCount) return
+            const noteY = row * keyHeight + 2
+            ctx.fillStyle = 'rgba(110, 168, 254, 0.35)'
+            ctx.fillRect(x, noteY, noteW, keyHeight - 4)
+            ctx.strokeStyle = 'rgba(110, 168, 254, 0.9)'
+            ctx.setLineDash([3, 2])
+            ctx.strokeRect(x, noteY, noteW, keyHeight - 4)
+            ctx.setLineDash([])
+        })
+
+        // Rubber-band selection rectangle
+        if (marquee?.active) {
+            ctx.fillStyle = 'rgba(212, 98, 122, 0.15)'
+            ctx.fillRect(marquee.startX, marquee.startY, marquee.x - marquee.startX, marquee.y - marquee.startY)
+            ctx.strokeStyle = '#d4627a'
+            ctx.lineWidth = 1
+            ctx.strokeRect(marquee.startX, marquee.startY, marquee.x - marquee.startX, marquee.y - marquee.startY)
+        }
+
+        // Loop region boundaries
+        if (loop.enabled) {
+            ctx.fillStyle = 'rgba(127, 176, 105, 0.06)'
+            ctx.fillRect(tickToX(loop.start), 0, (loop.end - loop.start) * pixelsPerTick, h)
+        }
+
+        // Draw playhead cursor (dimmer while stopped)
+        {
+            const cursorX = tickToX(cursorTick)
+            ctx.strokeStyle = isPlaying ? '#ff4444' : 'rgba(255, 68, 68, 0.6)'
             ctx.lineWidth = 2
             ctx.beginPath()
             ctx.moveTo(cursorX, 0)
@@ -502,11 +1317,13 @@ export default function PianoRoll() {
             ctx.stroke()
             ctx.lineWidth = 1
         }
-    }, [notes, cursorTick, isPlaying, zoom, pressedKeys, dragInfo.current, scrollOffset])
+        ctx.restore()
+    }, [tracks, activeTrackId, cursorTick, isPlaying, zoom, pressedKeys, midiHeld, dragInfo.current, scrollOffset, scrollTick, selection, marquee, grid, tempoMap, loop, keySignature, scaleView, suggestion])
 
     const handleCanvasMouseDown = (e: React.MouseEvent) => {
         const canvas = canvasRef.current
         if (!canvas) return
+        if (e.button !== 0) return // right-click is handled by onContextMenu
         
         const rect = canvas.getBoundingClientRect()
         const x = e.clientX - rect.left
@@ -515,72 +1332,131 @@ export default function PianoRoll() {
         // Handle piano key clicks to play notes
         if (x < pianoWidth) {
             const keyIndex = Math.floor(y / (canvasHeight / keyCount))
-            const midi = topMidi - keyIndex
+            const midi = rowMidi(keyIndex)
+            if (midi === undefined) return
             
             // Play the note immediately with velocity sensitivity
             const velocity = 0.3 + Math.random() * 0.4 // Random velocity for realistic feel
             
             // Only play if samples are loaded (for piano) or if it's not piano
-            if (selectedInstrument !== 'piano' || samplesLoaded) {
+            if (samplesLoaded) {
                 const note = Tone.Frequency(midi, 'midi').toNote()
-                synthRef.current?.triggerAttackRelease(note, '8n', undefined, velocity)
+                activeSynth()?.triggerAttackRelease(note, '8n', undefined, velocity)
             }
             return
         }
+
+        if (drumView && drumSettings.step) {
+            toggleStepAt(x, y)
+            return
+        }
         
         // Check if clicking on an existing note
-        const gridX = x - pianoWidth
-        const totalTicks = PPQ * 4 * (visibleBeats / 4) / zoom
-        const pixelsPerTick = (canvasWidth - pianoWidth) / totalTicks
-        
-        const clickedNote = notes.find(note => {
-            const noteX = note.tick * pixelsPerTick
-            const noteW = note.length * pixelsPerTick
-            const noteIndex = topMidi - note.midi
-            const noteY = noteIndex * (canvasHeight / keyCount)
-            const noteH = canvasHeight / keyCount - 4
-            
-            return gridX >= noteX && gridX <= noteX + noteW && 
-                   y >= noteY && y <= noteY + noteH
-        })
+        const clickedNote = noteAt(x, y)
+        const toggle = e.shiftKey || e.ctrlKey || e.metaKey
         
         if (clickedNote) {
-            // Start dragging existing note
-            selectedRef.current = clickedNote.id
+            if (toggle && selectedRef.current.has(clickedNote.id)) {
+                // Shift/Ctrl-click on a selected note removes it from the selection
+                const next = new Set(selectedRef.current)
+                next.delete(clickedNote.id)
+                select(next)
+                return
+            }
+            if (toggle) {
+                select([...selectedRef.current, clickedNote.id])
+            } else if (!selectedRef.current.has(clickedNote.id)) {
+                select([clickedNote.id])
+            }
+            
+            // Start dragging (or resizing, when grabbed by an edge) the selection, anchored on the clicked note
+            const edge = edgeAt(clickedNote, x)
             dragInfo.current = {
                 isDragging: true,
-                isResizing: false,
+                isResizing: edge !== null,
+                resizeEdge: edge,
                 noteId: clickedNote.id,
                 startX: x,
                 startY: y,
                 originalTick: clickedNote.tick,
                 originalMidi: clickedNote.midi,
-                originalLength: clickedNote.length
+                originalLength: clickedNote.length,
+                originals: selectedNotes(),
+                historyKey: `drag_${Date.now()}`
             }
         } else {
-            // Create new note
-            const tick = Math.floor(gridX / pixelsPerTick)
-            const keyIndex = Math.floor(y / (canvasHeight / keyCount))
-            const midi = topMidi - keyIndex
-            
-            // Snap to grid (16th notes)
-            const snappedTick = Math.floor(tick / (PPQ / 4)) * (PPQ / 4)
-            
-            const newNote: Note = {
-                id: Date.now().toString(),
-                tick: snappedTick,
-                length: PPQ / 4, // quarter note
-                midi,
-                vel: 80
-            }
+            // Either a click (adds a note on mouse up) or the start of a rubber band
+            if (!toggle) select([])
+            setMarquee({ startX: x, startY: y, x, y, active: false, additive: toggle, base: new Set(selectedRef.current) })
+        }
+    }
+
+    // Finds the note under a canvas position, if any
+    const noteAt = (x: number, y: number) => {
+        return notes.find(note => {
+            const noteX = tickToX(note.tick)
+            const noteW = note.length * pixelsPerTick
+            const noteIndex = midiRow(note.midi)
+            const noteY = noteIndex * (canvasHeight / keyCount)
+            const noteH = canvasHeight / keyCount - 4
             
-            setNotes([...notes, newNote])
+            return x >= noteX && x <= noteX + noteW && 
+                   y >= noteY && y <= noteY + noteH
+        })
+    }
+
+    // Which edge of a note a canvas x position is grabbing, if any
+    const edgeAt = (note: Note, x: number) => {
+        const left = tickToX(note.tick)
+        const right = left + note.length * pixelsPerTick
+        // Shrink the handles on narrow notes so the middle can still be grabbed
+        const handle = Math.min(6, (right - left) / 3)
+        if (right - x <= handle) return 'right'
+        if (x - left <= handle) return 'left'
+        return null
+    }
+
+    // Step sequencer: a click adds a one-step hit in the cell, or removes the hits already there
+    const toggleStepAt = (x: number, y: number) => {
+        const midi = rowMidi(Math.floor(y / (canvasHeight / keyCount)))
+        if (midi === undefined) return
+        const step = gridRef.current || PPQ / 4
+        const start = Math.max(0, snapTick(xToTick(x), step))
+        const hits = stepHits(notesRef.current, midi, start, start + step)
+        if (hits.length) {
+            edit({ label: 'Remove hit', before: hits, after: [] })
+            return
         }
+        edit({ label: 'Add hit', before: [], after: [{ id: newNoteId(), tick: start, length: step, midi, vel: lastVelRef.current }] })
+        activeSynth()?.triggerAttackRelease(Tone.Frequency(midi, 'midi').toNote(), '16n', undefined, lastVelRef.current / 127)
     }
 
-    const handleCanvasMouseMove = (e: React.MouseEvent) => {
-        if (!dragInfo.current?.isDragging) return
+    const addNoteAt = (x: number, y: number, noteGrid: number) => {
+        const tick = Math.floor(xToTick(x))
+        const keyIndex = Math.floor(y / (canvasHeight / keyCount))
+        const rowPitch = rowMidi(keyIndex)
+        if (rowPitch === undefined) return
+        const toScale = (pitch: number) => scaleView.snap && keyActive ? snapToScale(keySignature, pitch) : pitch
+        // With snap-to-scale on, chords come out diatonic
+        const pitches = chordTool.enabled && !drumView
+            ? Array.from(new Set(chordPitches(rowPitch, chordTool).map(toScale))).filter(pitch => pitch >= 21 && pitch <= 108)
+            : [clampMidi(toScale(rowPitch))]
+        
+        const snappedTick = snapTick(tick, noteGrid)
+        
+        const newNotes: Note[] = pitches.map(midi => ({
+            id: newNoteId(),
+            tick: snappedTick,
+            length: lastLengthRef.current,
+            midi,
+            vel: lastVelRef.current
+        }))
         
+        edit({ label: chordTool.enabled && !drumView ? 'Add chord' : 'Add note', before: [], after: newNotes })
+        select(newNotes.map(note => note.id))
+    }
+
+    const handleCanvasMouseMove = (e: React.MouseEvent) => {
         const canvas = canvasRef.current
         if (!canvas) return
         
@@ -588,48 +1464,183 @@ export default function PianoRoll() {
         const x = e.clientX - rect.left
         const y = e.clientY - rect.top
         
-        const deltaX = x - dragInfo.current.startX
-        const deltaY = y - dragInfo.current.startY
-        
-        const totalTicks = PPQ * 4 * (visibleBeats / 4) / zoom
-        const pixelsPerTick = (canvasWidth - pianoWidth) / totalTicks
         const keyHeight = canvasHeight / keyCount
         
-        // Calculate new position
+        mouseTickRef.current = x >= pianoWidth ? xToTick(x) : null
+        
+        if (marquee) {
+            const active = marquee.active || Math.abs(x - marquee.startX) > 4 || Math.abs(y - marquee.startY) > 4
+            setMarquee({ ...marquee, x, y, active })
+            if (!active) return
+            
+            // Select every note that intersects the rectangle
+            const left = Math.min(marquee.startX, x)
+            const right = Math.max(marquee.startX, x)
+            const top = Math.min(marquee.startY, y)
+            const bottom = Math.max(marquee.startY, y)
+            const inside = notes.filter(note => {
+                const noteX = tickToX(note.tick)
+                const noteY = midiRow(note.midi) * keyHeight
+                return noteX + note.length * pixelsPerTick >= left && noteX <= right &&
+                       noteY + keyHeight >= top && noteY <= bottom
+            })
+            select(marquee.additive ? [...marquee.base, ...inside.map(note => note.id)] : inside.map(note => note.id))
+            return
+        }
+        
+        const drag = dragInfo.current
+        if (!drag?.isDragging) {
+            // Show a resize cursor near note edges
+            const hovered = x >= pianoWidth ? noteAt(x, y) : undefined
+            setHoverEdge(hovered ? edgeAt(hovered, x) : null)
+            return
+        }
+        
+        const deltaX = x - drag.startX
+        const deltaY = y - drag.startY
+        const dragGrid = e.altKey ? 0 : grid // hold Alt to bypass snapping
+        
+        if (drag.isResizing) {
+            resizeSelection(drag, Math.round(deltaX / pixelsPerTick), dragGrid)
+            return
+        }
+        
+        // Calculate new position of the anchor note
         const tickDelta = Math.floor(deltaX / pixelsPerTick)
-        const midiDelta = -Math.floor(deltaY / keyHeight) // Negative because Y increases downward
+        const rowDelta = -Math.floor(deltaY / keyHeight) // Negative because Y increases downward
         
-        const newTick = Math.max(0, dragInfo.current.originalTick + tickDelta)
-        const newMidi = Math.max(21, Math.min(108, dragInfo.current.originalMidi + midiDelta)) // Full 88-key range
+        // Snap the anchor to the grid; the rest of the group follows it
+        const newTick = Math.max(0, drag.originalTick + tickDelta)
+        const snappedTick = snapTick(newTick, dragGrid)
         
-        // Snap to grid
-        const snappedTick = Math.floor(newTick / (PPQ / 4)) * (PPQ / 4)
+        // Keep the whole group at tick >= 0 and inside the 88-key range
+        const minTick = Math.min(...drag.originals.map(note => note.tick))
+        const minMidi = Math.min(...drag.originals.map(note => note.midi))
+        const maxMidi = Math.max(...drag.originals.map(note => note.midi))
+        const groupTickDelta = Math.max(-minTick, snappedTick - drag.originalTick)
+        const groupMidiDelta = Math.max(21 - minMidi, Math.min(108 - maxMidi, rowDelta))
         
-        // Update the note position
-        setNotes(prevNotes => 
-            prevNotes.map(note => 
-                note.id === dragInfo.current?.noteId 
-                    ? { ...note, tick: snappedTick, midi: newMidi }
-                    : note
-            )
-        )
+        // Folded rows are scale degrees, so moving a row steps through the scale;
+        // with snap-to-scale, notes land on the nearest scale note
+        const movePitch = (midi: number) => {
+            // Drum rows aren't contiguous pitches: step through the rows themselves
+            if (drumView) return rows[Math.max(0, Math.min(rows.length - 1, rows.indexOf(midi) - rowDelta))] ?? midi
+            if (!keyActive || rowDelta === 0) return midi + groupMidiDelta
+            if (scaleView.fold) return clampMidi(stepInScale(keySignature, midi, rowDelta))
+            if (scaleView.snap) return clampMidi(snapToScale(keySignature, midi + groupMidiDelta))
+            return midi + groupMidiDelta
+        }
+        
+        // Update the note positions
+        const moved = drag.originals.map(note => ({
+            ...note,
+            tick: note.tick + groupTickDelta,
+            midi: movePitch(note.midi)
+        }))
+        dragEdit(moved.length > 1 ? 'Move notes' : 'Move note', moved, drag.historyKey)
+    }
+
+    // Resizes every dragged note by the anchor's snapped edge movement
+    const resizeSelection = (drag: NonNullable<typeof dragInfo.current>, tickDelta: number, dragGrid: number) => {
+        const minLength = dragGrid || PPQ / 32
+        const anchorEnd = drag.originalTick + drag.originalLength
+        
+        let resized: Note[]
+        if (drag.resizeEdge === 'right') {
+            // Move the end, start stays put
+            const delta = snapTick(anchorEnd + tickDelta, dragGrid, 'round') - anchorEnd
+            resized = drag.originals.map(note => ({
+                ...note,
+                length: Math.max(minLength, note.length + delta)
+            }))
+        } else {
+            // Move the start, end stays put
+            const delta = snapTick(drag.originalTick + tickDelta, dragGrid, 'round') - drag.originalTick
+            resized = drag.originals.map(note => {
+                const end = note.tick + note.length
+                const tick = Math.max(0, Math.min(end - minLength, note.tick + delta))
+                return { ...note, tick, length: end - tick }
+            })
+        }
+        
+        const anchor = resized.find(note => note.id === drag.noteId)
+        if (anchor) lastLengthRef.current = anchor.length
+        dragEdit(resized.length > 1 ? 'Resize notes' : 'Resize note', resized, drag.historyKey)
     }
 
-    const handleCanvasMouseUp = () => {
+    // Records one step of a drag; all steps with the same key undo together
+    const dragEdit = (label: string, after: Note[], historyKey: string) => {
+        const before = notesRef.current.filter(note => after.some(n => n.id === note.id))
+        const unchanged = before.every(note => {
+            const target = after.find(n => n.id === note.id)
+            return target && target.tick === note.tick && target.midi === note.midi &&
+                   target.length === note.length && target.vel === note.vel
+        })
+        if (unchanged) return
+        edit({ label, before, after, mergeKey: historyKey })
+    }
+
+    const handleCanvasMouseUp = (e: React.MouseEvent) => {
+        if (marquee && !marquee.active && !marquee.additive) {
+            // A plain click on empty grid adds a note
+            addNoteAt(marquee.startX, marquee.startY, e.altKey ? 0 : grid)
+        }
+        setMarquee(null)
         dragInfo.current = null
-        // Don't clear selection here - keep selected note for deletion
+        // Don't clear selection here - keep selected notes for deletion
     }
 
-    const handleCanvasWheel = (e: React.WheelEvent) => {
+    const handleCanvasMouseLeave = () => {
+        mouseTickRef.current = null
+        setHoverEdge(null)
+        setMarquee(null)
+        dragInfo.current = null
+    }
+
+    const handleVelocityChange = (updated: Note[], label: string, historyKey: string) => {
+        if (updated.length === 0) return
+        lastVelRef.current = updated[updated.length - 1].vel
+        dragEdit(label, updated, historyKey)
+    }
+
+    // Registered natively (non-passive) so preventDefault stops page scroll and browser zoom
+    const wheelRef = useRef<(e: WheelEvent) => void>(() => {})
+    wheelRef.current = (e: WheelEvent) => {
         e.preventDefault()
+        const rect = canvasRef.current!.getBoundingClientRect()
+        const x = Math.max(pianoWidth, e.clientX - rect.left)
+        
+        if (e.ctrlKey || e.metaKey) {
+            // Zoom around the tick under the mouse
+            const mouseTick = xToTick(x)
+            const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom * (e.deltaY < 0 ? 1.25 : 0.8)))
+            const newPixelsPerTick = (canvasWidth - pianoWidth) / (PPQ * visibleBeats / newZoom)
+            setZoom(newZoom)
+            setScrollTick(Math.max(0, Math.min(maxScrollTick, mouseTick - (x - pianoWidth) / newPixelsPerTick)))
+            return
+        }
+        
+        const horizontal = e.shiftKey ? e.deltaY || e.deltaX : Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : 0
+        if (horizontal) {
+            // Shift-wheel or trackpad swipe scrolls through time
+            setScrollTick(prev => Math.max(0, Math.min(maxScrollTick, prev + horizontal / pixelsPerTick)))
+            return
+        }
         
         // Vertical scrolling for piano keys
         const scrollDelta = Math.sign(e.deltaY) * 3
         setScrollOffset(prev => {
-            const newOffset = Math.max(0, Math.min(totalKeys - keyCount, prev + scrollDelta))
+            const newOffset = Math.max(0, Math.min(maxScrollOffset, Math.min(prev, maxScrollOffset) + scrollDelta))
             return newOffset
         })
     }
+    useEffect(() => {
+        const cvs = canvasRef.current
+        if (!cvs) return
+        const handleWheel = (e: WheelEvent) => wheelRef.current(e)
+        cvs.addEventListener('wheel', handleWheel, { passive: false })
+        return () => cvs.removeEventListener('wheel', handleWheel)
+    }, [])
 
     const handleCanvasRightClick = (e: React.MouseEvent) => {
         e.preventDefault()
@@ -645,111 +1656,339 @@ export default function PianoRoll() {
         if (x < pianoWidth) return
         
         // Find note at right-click position
-        const gridX = x - pianoWidth
-        const totalTicks = PPQ * 4 * (visibleBeats / 4) / zoom
-        const pixelsPerTick = (canvasWidth - pianoWidth) / totalTicks
-        
-        const clickedNote = notes.find(note => {
-            const noteX = note.tick * pixelsPerTick
-            const noteW = note.length * pixelsPerTick
-            const noteIndex = topMidi - note.midi
-            const noteY = noteIndex * (canvasHeight / keyCount)
-            const noteH = canvasHeight / keyCount - 4
-            
-            return gridX >= noteX && gridX <= noteX + noteW && 
-                   y >= noteY && y <= noteY + noteH
-        })
+        const clickedNote = noteAt(x, y)
         
         if (clickedNote) {
-            // Delete the right-clicked note
-            setNotes(prevNotes => prevNotes.filter(note => note.id !== clickedNote.id))
-            selectedRef.current = null
+            // Delete the right-clicked note, or the whole selection if it is part of it
+            const targets = selectedRef.current.has(clickedNote.id) ? selectedNotes() : [clickedNote]
+            edit({ label: targets.length > 1 ? 'Delete notes' : 'Delete note', before: targets, after: [] })
+            select([...selectedRef.current].filter(id => !targets.some(note => note.id === id)))
         }
     }
 
-    const playNotes = () => {
-        if (isPlaying) {
-            // Stop playback
-            Tone.Transport.stop()
-            Tone.Transport.cancel() // Clear all scheduled events
-            setIsPlaying(false)
-            setCursorTick(0)
-            if (timelineRef.current) {
-                clearInterval(timelineRef.current)
-                timelineRef.current = null
-            }
-            return
+    // (Re)schedules every note on the transport. Called on play and again
+    // whenever notes or tempo change mid-playback, so edits made during a
+    // loop are heard on the next pass without restarting.
+    const clickSynth = (output: Tone.InputNode) => new Tone.Synth({
+        oscillator: { type: 'square' },
+        envelope: { attack: 0.001, decay: 0.04, sustain: 0, release: 0.01 }
+    }).connect(output)
+
+    const clickOutput = () => {
+        if (!clickRef.current) {
+            const volume = new Tone.Volume(metronomeRef.current.volume).toDestination()
+            clickRef.current = { synth: clickSynth(volume), volume }
         }
+        return clickRef.current
+    }
 
-        // Start playback
-        setIsPlaying(true)
-        setCursorTick(0)
+    // Downbeats are higher and louder
+    const click = (synth: Tone.Synth, time: number, accent: boolean) => {
+        synth.triggerAttackRelease(accent ? 'C6' : 'G5', 0.03, time, accent ? 1 : 0.6)
+    }
+
+    // Plays the count-in bars from now at the tempo and meter of `tick`;
+    // returns how long they last so the transport can start right after
+    const startCountIn = (tick: number) => {
+        const bars = metronomeRef.current.countInBars
+        if (!bars) return 0
+        const map = tempoMapRef.current
+        const meter = timeSignatureAt(map, tick)
+        const beat = (60 / bpmAt(map, tick)) * (4 / meter.denominator)
+        const beats = bars * meter.numerator
+        const start = Tone.now() + 0.05
+        // Its own synth, so stopping during the count-in can silence the clicks already queued
+        const synth = clickSynth(clickOutput().volume)
+        countInRef.current = synth
+        for (let i = 0; i < beats; i++) click(synth, start + i * beat, i % meter.numerator === 0)
+        setTimeout(() => {
+            if (countInRef.current !== synth) return
+            countInRef.current = null
+            synth.dispose()
+        }, (beats * beat + 0.5) * 1000)
+        return start - Tone.now() + beats * beat
+    }
+
+    const stopCountIn = () => {
+        countInRef.current?.dispose()
+        countInRef.current = null
+    }
+
+    const scheduleNotes = () => {
         Tone.Transport.cancel() // Clear any existing scheduled events
-        Tone.Transport.position = 0 // Reset transport position
-        
-        // Schedule notes
-        notes.forEach(note => {
-            const time = (note.tick / PPQ) * (60 / BPM)
-            const duration = (note.length / PPQ) * (60 / BPM)
-            
-            Tone.Transport.schedule((time) => {
-                // Use note velocity for dynamic playing (vel ranges 0-127, normalize to 0-1)
-                const velocity = note.vel / 127
-                const noteName = Tone.Frequency(note.midi, 'midi').toNote()
-                synthRef.current?.triggerAttackRelease(noteName, duration, time, velocity)
-            }, time)
+        const map = tempoMapRef.current
+        const output = midiOutput()
+        const { playback, outputChannel } = midiSettingsRef.current
+        const toSynth = !output || playback !== 'midi'
+        const toMidi = !!output && playback !== 'synth'
+        // Every audible (unmuted, or soloed) track plays on its own synth
+        audibleTracks(tracksRef.current).forEach(track => {
+            const channel = isDrumTrack(track) ? DRUM_CHANNEL : outputChannel
+            track.notes.forEach(note => {
+                // Convert ticks to seconds through the tempo map
+                const time = tickToSeconds(map, note.tick, PPQ)
+                const duration = tickToSeconds(map, note.tick + note.length, PPQ) - time
+                
+                Tone.Transport.schedule((time) => {
+                    // Use note velocity for dynamic playing (vel ranges 0-127, normalize to 0-1)
+                    const velocity = note.vel / 127
+                    const noteName = Tone.Frequency(note.midi, 'midi').toNote()
+                    if (toSynth) voicesRef.current.get(track.id)?.synth.triggerAttackRelease(noteName, duration, time, velocity)
+                    if (toMidi) {
+                        // Tone schedules ahead in audio-context time; Web MIDI timestamps use performance.now()
+                        const at = performance.now() + (time - Tone.immediate()) * 1000
+                        output.send(noteOnMessage(channel, note.midi, note.vel), at)
+                        output.send(noteOffMessage(channel, note.midi), at + duration * 1000)
+                    }
+                }, time)
+            })
         })
 
-        Tone.Transport.start()
-        
-        // Update cursor using Tone.Transport time for perfect sync
-        const maxTicks = PPQ * 16 // 4 bars * 4 beats
-        
+        if (metronomeRef.current.enabled) {
+            const { synth } = clickOutput()
+            // Click through the song (or loop) and well past it, for recording beyond the last note
+            const horizon = Math.max(songEndRef.current, loopRef.current.end, cursorTickRef.current) + PPQ * 4 * 64
+            beatLines(map, 0, horizon, PPQ).forEach(line => {
+                Tone.Transport.schedule((time) => click(synth, time, line.isBar), tickToSeconds(map, line.tick, PPQ))
+            })
+        }
+
+        // The live arpeggiator steps on its own grid over the same stretch as the metronome
+        const rate = snapTicks(arpRef.current.rate, PPQ)
+        if (arpRef.current.live && rate) {
+            const horizon = Math.max(songEndRef.current, loopRef.current.end, cursorTickRef.current) + PPQ * 4 * 64
+            for (let tick = 0; tick < horizon; tick += rate) {
+                const at = Math.round(tick)
+                Tone.Transport.schedule((time) => arpStep(time, at), tickToSeconds(map, at, PPQ))
+            }
+        }
+    }
+
+    // Plays (and records, when armed) the next note of the pattern over the held keys
+    const arpStep = (time: number, tick: number) => {
+        const live = arpLiveRef.current
+        const settings = arpRef.current
+        const chord = live.held.map(note => note.midi).join(',')
+        if (chord !== live.chord) {
+            live.chord = chord
+            live.step = 0
+        }
+        if (live.held.length === 0) return
+        const map = tempoMapRef.current
+        const length = Math.max(1, Math.round(snapTicks(settings.rate, PPQ) * settings.gate))
+        const midi = arpPitch(arpSequence(live.held.map(note => note.midi), settings.mode, settings.octaves), settings.mode, live.step, live.random)
+        if (midi === null) return // every held key is above the top of the range
+        const vel = accentVelocity(Math.max(...live.held.map(note => note.vel)), settings.accents, live.step)
+        live.step++
+        if (samplesLoadedRef.current) {
+            const duration = tickToSeconds(map, tick + length, PPQ) - tickToSeconds(map, tick, PPQ)
+            activeSynth()?.triggerAttackRelease(Tone.Frequency(midi, 'midi').toNote(), duration, time, vel / 127)
+        }
+        if (recordingRef.current) writeTakeNote(currentTake(), { id: newNoteId(), tick, length, midi, vel })
+    }
+
+    const stopTimeline = () => {
+        if (timelineRef.current) {
+            clearInterval(timelineRef.current)
+            timelineRef.current = null
+        }
+    }
+
+    // Update cursor using Tone.Transport time for perfect sync
+    const startTimeline = () => {
+        stopTimeline()
         timelineRef.current = window.setInterval(() => {
-            if (!isPlaying) return // Safety check
+            if (Tone.Transport.state !== 'started') return // still counting in
+            const currentTick = secondsToTick(tempoMapRef.current, Tone.Transport.seconds, PPQ)
+            const looping = loopRef.current.enabled && currentTick < loopRef.current.end
             
-            const transportSeconds = Tone.Transport.seconds
-            const currentTick = (transportSeconds / 60) * BPM * PPQ
-            
-            if (currentTick <= maxTicks) {
-                setCursorTick(currentTick)
-            } else {
-                // Auto-stop when reaching end
-                Tone.Transport.stop()
-                Tone.Transport.cancel()
-                setIsPlaying(false)
-                setCursorTick(0)
-                if (timelineRef.current) {
-                    clearInterval(timelineRef.current)
-                    timelineRef.current = null
-                }
+            // The song ends with its last note, unless a loop brings us back or we are recording
+            if (currentTick > songEndRef.current && !looping && !recordingRef.current) {
+                stop()
+                return
             }
+            setCursorTick(currentTick)
+            // Page the view along with the playhead
+            setScrollTick(prev => currentTick < prev || currentTick > prev + viewTicksRef.current ? currentTick : prev)
         }, 50)
     }
 
+    const play = async () => {
+        await Tone.start() // audio can only start from a user gesture
+        if (Tone.Transport.state === 'paused') {
+            Tone.Transport.start()
+        } else {
+            // Start from the playhead; Stop returns here
+            scheduleNotes()
+            playStartTickRef.current = cursorTickRef.current
+            arpLiveRef.current = { ...arpLiveRef.current, chord: '', step: 0, random: createRandom(arpRef.current.seed) }
+            const countIn = startCountIn(cursorTickRef.current)
+            Tone.Transport.start(Tone.now() + countIn, tickToSeconds(tempoMapRef.current, cursorTickRef.current, PPQ))
+        }
+        setIsPlaying(true)
+        setIsPaused(false)
+        startTimeline()
+    }
+
+    const pause = () => {
+        stopCountIn()
+        finishTake()
+        Tone.Transport.pause()
+        silenceMidiOutput()
+        stopTimeline()
+        setIsPlaying(false)
+        setIsPaused(true)
+        setCursorTick(secondsToTick(tempoMapRef.current, Tone.Transport.seconds, PPQ))
+    }
+
+    const stop = () => {
+        stopCountIn()
+        finishTake()
+        recordingRef.current = false
+        setRecording(false)
+        Tone.Transport.stop()
+        Tone.Transport.cancel() // Clear all scheduled events
+        silenceMidiOutput()
+        stopTimeline()
+        setIsPlaying(false)
+        setIsPaused(false)
+        setCursorTick(playStartTickRef.current)
+    }
+
+    const togglePlay = () => {
+        if (isPlayingRef.current) pause()
+        else play()
+    }
+
+    // Moves the playhead; while playing or paused the transport jumps with it
+    const seek = (tick: number) => {
+        const target = Math.max(0, snapTick(tick, gridRef.current, 'round'))
+        setCursorTick(target)
+        playStartTickRef.current = target
+        if (Tone.Transport.state !== 'stopped') {
+            Tone.Transport.seconds = tickToSeconds(tempoMapRef.current, target, PPQ)
+        }
+    }
+
+    // Dragging on the ruler sets (and switches on) the loop region
+    const setLoopRegion = (startTick: number, endTick: number) => {
+        const start = Math.max(0, snapTick(startTick, gridRef.current, 'round'))
+        const end = snapTick(endTick, gridRef.current, 'round')
+        if (end > start) setLoop({ enabled: true, start, end })
+    }
+
+    // Project tempo / meter are the changes at tick 0
+    const setProjectBpm = (bpm: number) => {
+        if (!isFinite(bpm)) return
+        editTempoMap('Change tempo', normalizeTempoMap({ ...tempoMap, tempos: [{ tick: 0, bpm }, ...tempoMap.tempos.slice(1)] }))
+    }
+
+    // The tempo field is edited as text and applied on Enter or blur, so a
+    // half-typed number isn't clamped while typing
+    const [bpmText, setBpmText] = useState(String(projectBpm))
+    useEffect(() => setBpmText(String(projectBpm)), [projectBpm])
+
+    const commitBpmText = () => {
+        const bpm = Number(bpmText)
+        if (!bpmText.trim() || !isFinite(bpm)) {
+            setBpmText(String(projectBpm))
+            return
+        }
+        const clamped = Math.max(MIN_BPM, Math.min(MAX_BPM, bpm))
+        if (clamped !== projectBpm) setProjectBpm(clamped)
+        setBpmText(String(clamped))
+    }
+
+    const setProjectMeter = (numerator: number, denominator: number) => {
+        if (!numerator) return
+        editTempoMap('Change time signature', normalizeTempoMap({
+            ...tempoMap,
+            timeSignatures: [{ tick: 0, numerator, denominator }, ...tempoMap.timeSignatures.slice(1)]
+        }))
+    }
+
+    const addTempoChange = () => {
+        const tick = barToTick(tempoMap, markerBar, PPQ)
+        editTempoMap('Add tempo change', normalizeTempoMap({ ...tempoMap, tempos: [...tempoMap.tempos, { tick, bpm: markerBpm }] }))
+    }
+
+    const addMeterChange = () => {
+        const tick = barToTick(tempoMap, markerBar, PPQ)
+        editTempoMap('Add time signature change', normalizeTempoMap({
+            ...tempoMap,
+            timeSignatures: [...tempoMap.timeSignatures, { tick, ...markerMeter }]
+        }))
+    }
+
+    const removeTempoChange = (tick: number) => {
+        editTempoMap('Remove tempo change', normalizeTempoMap({ ...tempoMap, tempos: tempoMap.tempos.filter(t => t.tick !== tick) }))
+    }
+
+    const removeMeterChange = (tick: number) => {
+        editTempoMap('Remove time signature change', normalizeTempoMap({ ...tempoMap, timeSignatures: tempoMap.timeSignatures.filter(ts => ts.tick !== tick) }))
+    }
+
     const exportMIDI = () => {
-        const midiData = writeMidi(notes, BPM, PPQ)
-        const blob = new Blob([midiData], { type: 'application/octet-stream' })
-        const url = URL.createObjectURL(blob)
-        const a = document.createElement('a')
-        a.href = url
-        a.download = 'pianoroll.mid'
-        a.click()
-        URL.revokeObjectURL(url)
+        const midiData = writeMidi(
+            // Drum tracks go on the GM percussion channel, where programs select kits rather than instruments
+            tracks.map(track => isDrumTrack(track)
+                ? { name: track.name, notes: track.notes, channel: DRUM_CHANNEL }
+                : { name: track.name, notes: track.notes, program: presets.find(preset => preset.id === track.instrument)?.program }),
+            { ppq: PPQ, title: 'Piano Roll', tempos: tempoMap.tempos, timeSignatures: tempoMap.timeSignatures }
+        )
+        downloadFile(new Blob([midiData], { type: 'application/octet-stream' }), 'pianoroll.mid')
     }
 
-    const clearNotes = () => {
-        setNotes([])
-        if (isPlaying) {
-            Tone.Transport.stop()
-            Tone.Transport.cancel()
-            setIsPlaying(false)
-            setCursorTick(0)
-            if (timelineRef.current) {
-                clearInterval(timelineRef.current)
-                timelineRef.current = null
-            }
+    // Renders every audible track faster than real time on fresh instruments
+    // in an offline context, then encodes the result as PCM WAV
+    const exportWAV = async () => {
+        const map = tempoMapRef.current
+        const sources = audibleTracks(tracksRef.current).filter(track => track.notes.length)
+        if (sources.length === 0) {
+            alert('Nothing to render: add some notes or unmute a track first')
+            return
         }
+        const end = Math.max(...sources.map(track => noteSpan(track.notes).end))
+        const duration = tickToSeconds(map, end, PPQ) + renderTailSeconds
+
+        setRenderProgress(0)
+        let offline: Tone.OfflineContext | null = null
+        const poll = window.setInterval(() => {
+            if (offline) setRenderProgress(Math.min(1, offline.currentTime / duration))
+        }, 100)
+        try {
+            const buffer = await Tone.Offline(async (context) => {
+                offline = context
+                const voices = sources.map(track => {
+                    const channel = new Tone.Channel({ volume: track.volume, pan: track.pan }).toDestination()
+                    return { track, ...buildInstrument(track.instrument, presetsRef.current, channel) }
+                })
+                await Promise.all(voices.map(voice => voice.ready))
+                voices.forEach(({ track, synth }) => {
+                    // In time order: a retrigger replaces what a voice had scheduled after it
+                    [...track.notes].sort((a, b) => a.tick - b.tick).forEach(note => {
+                        const time = tickToSeconds(map, note.tick, PPQ)
+                        const length = tickToSeconds(map, note.tick + note.length, PPQ) - time
+                        synth.triggerAttackRelease(Tone.Frequency(note.midi, 'midi').toNote(), length, time, note.vel / 127)
+                    })
+                })
+            }, duration)
+            const audio = buffer.get()!
+            const channels = Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i))
+            const wav = encodeWav(channels, audio.sampleRate, wavBitDepth)
+            downloadFile(new Blob([wav], { type: 'audio/wav' }), 'pianoroll.wav')
+        } catch (error) {
+            alert('Error rendering audio: ' + (error as Error).message)
+        } finally {
+            clearInterval(poll)
+            setRenderProgress(null)
+        }
+    }
+
+    const clearNotes = () => {
+        edit({ label: 'Clear', before: notesRef.current, after: [] })
+        select([])
+        if (isPlaying || isPaused) stop()
     }
 
     const importMIDI = () => {
@@ -762,39 +2001,31 @@ export default function PianoRoll() {
 
         try {
             const arrayBuffer = await file.arrayBuffer()
-            const midiData = new Uint8Array(arrayBuffer)
+            const parsed = readMidi(new Uint8Array(arrayBuffer), PPQ)
             
-            // Basic MIDI parsing - looking for note events
-            const importedNotes: Note[] = []
-            let currentTick = 0
-            let ticksPerQuarter = PPQ
-            
-            // Simple MIDI parsing for note events (0x90 = note on, 0x80 = note off)
-            for (let i = 0; i < midiData.length - 3; i++) {
-                const byte = midiData[i]
-                
-                // Note On event (0x90-0x9F)
-                if ((byte & 0xF0) === 0x90) {
-                    const note = midiData[i + 1] // MIDI note number
-                    const velocity = midiData[i + 2] // Velocity
-                    
-                    if (velocity > 0 && note >= 21 && note <= 108) { // Full 88-key range
-                        const newNote: Note = {
-                            id: `imported_${Date.now()}_${i}`,
-                            tick: currentTick,
-                            length: PPQ / 4, // Default quarter note length
-                            midi: note,
-                            vel: velocity
-                        }
-                        importedNotes.push(newNote)
-                    }
-                    currentTick += PPQ / 8 // Advance time
-                }
-            }
+            // Keep only notes the roll can show (full 88-key range)
+            const importedNotes: Note[] = parsed.notes.filter(note => note.midi >= 21 && note.midi <= 108)
             
             if (importedNotes.length > 0) {
-                setNotes(importedNotes)
-                alert(`Imported ${importedNotes.length} notes from MIDI file!`)
+                // The file's tempo map comes in with the notes, so one undo reverts both
+                const tempo = tempoMapRef.current
+                const imported = parsed.tempos.length || parsed.timeSignatures.length
+                    ? normalizeTempoMap({
+                        tempos: parsed.tempos.length ? parsed.tempos : tempo.tempos.slice(0, 1),
+                        timeSignatures: parsed.timeSignatures.length ? parsed.timeSignatures : tempo.timeSignatures.slice(0, 1)
+                    })
+                    : null
+                edit({
+                    label: 'Import MIDI',
+                    before: notesRef.current,
+                    after: importedNotes,
+                    ...(imported ? { state: { before: tempo, after: imported } } : {})
+                })
+                select([])
+                const sources = parsed.tracks.filter(track => track.notes.length).length
+                alert(sources > 1
+                    ? `Imported ${importedNotes.length} notes from ${sources} tracks, merged into "${activeTrack.name}"`
+                    : `Imported ${importedNotes.length} notes into "${activeTrack.name}"`)
             } else {
                 alert('No valid notes found in MIDI file')
             }
@@ -806,53 +2037,624 @@ export default function PianoRoll() {
         e.target.value = ''
     }
 
+    const buildProject = (): Project => ({
+        type: PROJECT_TYPE,
+        version: PROJECT_VERSION,
+        ppq: PPQ,
+        tempoMap,
+        tracks,
+        presets,
+        activeTrackId,
+        key: keySignature,
+        loop,
+        view: { zoom, scrollTick, scrollOffset, snap }
+    })
+
+    // Replaces the whole editor state; undo history belongs to the old project
+    const openProject = (project: Project) => {
+        stop()
+        historyRef.current = emptyHistory()
+        setPresets(project.presets)
+        updateTracks(project.tracks)
+        activeTrackIdRef.current = project.activeTrackId
+        setActiveTrackId(project.activeTrackId)
+        setTempoMap(project.tempoMap)
+        setKeySignature(project.key)
+        setLoop(project.loop)
+        setZoom(Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, project.view.zoom)))
+        setScrollTick(project.view.scrollTick)
+        setScrollOffset(Math.max(0, Math.min(totalKeys - keyCount, Math.round(project.view.scrollOffset))))
+        if (project.view.snap === SNAP_OFF || snapOptions.some(option => option.id === project.view.snap)) {
+            setSnap(project.view.snap)
+        }
+        setCursorTick(0)
+        playStartTickRef.current = 0
+        select([])
+    }
+
+    const saveProject = () => {
+        downloadFile(new Blob([serializeProject(buildProject())], { type: 'application/json' }), 'pianoroll.json')
+    }
+
+    const handleProjectOpen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+        try {
+            openProject(parseProject(await file.text(), PPQ))
+        } catch (error) {
+            alert(`Could not open ${file.name}: ${(error as Error).message}`)
+        }
+    }
+
+    // Offer the last autosave once on load; autosaving waits for the answer
+    // so the empty startup project can't overwrite it first
+    const autosaveReadyRef = useRef(false)
+    const [autosaveError, setAutosaveError] = useState<string | null>(null)
+    useEffect(() => {
+        let cancelled = false
+        loadAutosave()
+            .then(saved => {
+                if (cancelled || !saved) return
+                const project = parseProject(saved.text, PPQ)
+                const noteCount = project.tracks.reduce((sum, track) => sum + track.notes.length, 0)
+                if (noteCount === 0) return
+                const when = new Date(saved.savedAt).toLocaleString()
+                if (confirm(`Restore the project autosaved on ${when} (${noteCount} notes)?`)) openProject(project)
+            })
+            .catch(error => setAutosaveError(`Could not restore the autosave: ${(error as Error).message}`))
+            .finally(() => {
+                if (!cancelled) autosaveReadyRef.current = true
+            })
+        return () => { cancelled = true }
+    }, [])
+
+    useEffect(() => {
+        if (!autosaveReadyRef.current) return
+        const timer = setTimeout(() => {
+            saveAutosave(buildProject())
+                .then(() => setAutosaveError(null))
+                .catch(error => setAutosaveError(`Autosave failed: ${(error as Error).message}`))
+        }, 1000)
+        return () => clearTimeout(timer)
+    }, [tracks, presets, activeTrackId, tempoMap, keySignature, loop, zoom, scrollTick, scrollOffset, snap])
+
+    const nextUndo = historyRef.current.undo[historyRef.current.undo.length - 1]
+    const nextRedo = historyRef.current.redo[historyRef.current.redo.length - 1]
+
     return (
         <div style={{ marginTop: 20 }}>
             <div style={{ marginBottom: 10, display: 'flex', alignItems: 'center', gap: '10px' }}>
-                <select 
-                    value={selectedInstrument} 
-                    onChange={(e) => setSelectedInstrument(e.target.value)}
-                    style={{ 
-                        padding: '8px 12px', 
-                        borderRadius: '4px',
-                        border: '1px solid #ccc',
-                        backgroundColor: 'white',
-                        fontSize: '14px'
-                    }}
+                <button onClick={togglePlay} title="Play / Pause (Space)" style={{ padding: '8px 16px' }}>
+                    {isPlaying ? 'Pause' : isPaused ? 'Resume' : 'Play'}
+                </button>
+                <button onClick={stop} disabled={!isPlaying && !isPaused} style={{ padding: '8px 16px' }}>
+                    Stop
+                </button>
+                <button
+                    onClick={toggleRecord}
+                    title="Record notes played on the keyboard into the active track"
+                    style={{ padding: '8px 16px', background: recording ? '#c55569' : undefined, color: recording ? '#ffffff' : undefined }}
                 >
-                    <option value="piano">Piano</option>
-                    <option value="guitar">Guitar</option>
-                    <option value="bass">Bass</option>
-                    <option value="bell">Bell</option>
-                    <option value="pad">Pad</option>
-                </select>
-                
-                <button onClick={playNotes} style={{ padding: '8px 16px', marginRight: '8px' }}>
-                    {isPlaying ? 'Stop' : 'Play'}
+                    ● Rec
+                </button>
+                <button
+                    onClick={() => setLoop({ ...loop, enabled: !loop.enabled })}
+                    title="Drag on the ruler to set the loop region"
+                    style={{ padding: '8px 16px', marginRight: '8px', background: loop.enabled ? '#7fb069' : undefined }}
+                >
+                    Loop {loop.enabled ? 'on' : 'off'}
+                </button>
+                <button onClick={saveProject} title="Download the project as a file" style={{ padding: '8px 16px' }}>
+                    Save
                 </button>
+                <button onClick={() => projectInputRef.current?.click()} style={{ padding: '8px 16px', marginRight: '8px' }}>
+                    Open
+                </button>
+                {autosaveError && <span style={{ color: '#c55569', marginRight: '8px' }}>{autosaveError}</span>}
                 <button onClick={exportMIDI} style={{ padding: '8px 16px', marginRight: '8px' }}>
                     Export MIDI
                 </button>
-                <button onClick={importMIDI} style={{ padding: '8px 16px', marginRight: '8px' }}>
+                <button onClick={exportWAV} disabled={renderProgress !== null} style={{ padding: '8px 16px' }}>
+                    {renderProgress === null ? 'Export WAV' : `Rendering ${Math.round(renderProgress * 100)}%`}
+                </button>
+                <select
+                    value={wavBitDepth}
+                    onChange={(e) => setWavBitDepth(Number(e.target.value) as WavBitDepth)}
+                    disabled={renderProgress !== null}
+                    title="WAV bit depth"
+                    style={{ padding: '4px 8px', marginRight: '8px' }}
+                >
+                    <option value={16}>16-bit</option>
+                    <option value={24}>24-bit</option>
+                </select>
+                {renderProgress !== null && <progress value={renderProgress} max={1} style={{ width: 80 }} />}
+                <button
+                    onClick={importMIDI}
+                    title="Replaces the active track's notes; all tracks in the file are merged into it"
+                    style={{ padding: '8px 16px', marginRight: '8px' }}
+                >
                     Import MIDI
                 </button>
                 <button onClick={clearNotes} style={{ padding: '8px 16px', marginRight: '8px' }}>
                     Clear
                 </button>
+                <button
+                    onClick={undo}
+                    disabled={!nextUndo}
+                    title={nextUndo ? `Undo ${nextUndo.label} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+                    style={{ padding: '8px 16px', marginRight: '8px' }}
+                >
+                    Undo
+                </button>
+                <button
+                    onClick={redo}
+                    disabled={!nextRedo}
+                    title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+                    style={{ padding: '8px 16px', marginRight: '8px' }}
+                >
+                    Redo
+                </button>
                 
                 <label style={{ marginLeft: 20, display: 'flex', alignItems: 'center', gap: '10px' }}>
                     Zoom: 
                     <input
                         type="range"
-                        min="0.5"
-                        max="4"
-                        step="0.5"
+                        min={MIN_ZOOM}
+                        max={MAX_ZOOM}
+                        step="0.25"
                         value={zoom}
                         onChange={(e) => setZoom(Number(e.target.value))}
                     />
-                    <span>{zoom}x</span>
+                    <span>{Math.round(zoom * 100) / 100}x</span>
                 </label>
             </div>
+            <div style={{ marginBottom: 10, display: 'flex', alignItems: 'center', gap: '10px', fontSize: 14 }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    Tempo:
+                    <input
+                        type="number"
+                        min={MIN_BPM}
+                        max={MAX_BPM}
+                        value={bpmText}
+                        onChange={(e) => setBpmText(e.target.value)}
+                        onBlur={commitBpmText}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur()
+                        }}
+                        style={{ width: 60, padding: '4px' }}
+                    />
+                    BPM
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    Time:
+                    <input
+                        type="number"
+                        min="1"
+                        max="32"
+                        value={projectMeter.numerator}
+                        onChange={(e) => setProjectMeter(Number(e.target.value), projectMeter.denominator)}
+                        style={{ width: 40, padding: '4px' }}
+                    />
+                    /
+                    <select
+                        value={projectMeter.denominator}
+                        onChange={(e) => setProjectMeter(projectMeter.numerator, Number(e.target.value))}
+                        style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                    >
+                        {[2, 4, 8, 16].map(d => <option key={d} value={d}>{d}</option>)}
+                    </select>
+                </label>
+                
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: 20 }}>
+                    Snap:
+                    <select
+                        value={snap}
+                        onChange={(e) => setSnap(e.target.value)}
+                        style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                    >
+                        {snapOptions.map(option => (
+                            <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                        <option value={SNAP_OFF}>Off</option>
+                    </select>
+                </label>
+                
+                <button onClick={quantizeSelection} disabled={!grid} style={{ padding: '4px 12px', marginLeft: 20 }}>
+                    Quantize
+                </button>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    Strength:
+                    <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        step="5"
+                        value={Math.round(quantizeSettings.strength * 100)}
+                        onChange={(e) => setQuantizeSettings({ ...quantizeSettings, strength: Number(e.target.value) / 100 })}
+                    />
+                    <span>{Math.round(quantizeSettings.strength * 100)}%</span>
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    Swing:
+                    <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        step="5"
+                        value={quantizeSettings.swing}
+                        onChange={(e) => setQuantizeSettings({ ...quantizeSettings, swing: Number(e.target.value) })}
+                    />
+                    <span>{quantizeSettings.swing}%</span>
+                </label>
+                <select
+                    value={quantizeSettings.mode}
+                    onChange={(e) => setQuantizeSettings({ ...quantizeSettings, mode: e.target.value as QuantizeOptions['mode'] })}
+                    style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                >
+                    <option value="start">Starts only</option>
+                    <option value="start-end">Starts + ends</option>
+                </select>
+                <TransformMenu
+                    keySignature={keySignature}
+                    ppq={PPQ}
+                    target={selection.size ? `${selection.size} selected note${selection.size === 1 ? '' : 's'}` : 'all notes'}
+                    onApply={applyTransform}
+                />
+            </div>
+            <div style={{ marginBottom: 10, display: 'flex', alignItems: 'center', gap: '10px', fontSize: 14, flexWrap: 'wrap' }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    Key:
+                    <select
+                        value={keySignature.root}
+                        onChange={(e) => setKeySignature({ ...keySignature, root: Number(e.target.value) })}
+                        style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                    >
+                        {pitchClassNames.map((name, pitchClass) => <option key={name} value={pitchClass}>{name}</option>)}
+                    </select>
+                    <select
+                        value={keySignature.scale}
+                        onChange={(e) => setKeySignature({ ...keySignature, scale: e.target.value })}
+                        style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                    >
+                        {scales.map(scale => <option key={scale.id} value={scale.id}>{scale.name}</option>)}
+                    </select>
+                </label>
+                {keySignature.scale === CUSTOM_SCALE && (
+                    <span style={{ display: 'flex', gap: '2px' }} title="Scale degrees above the root">
+                        {pitchClassNames.map((_, degree) => {
+                            const on = keySignature.custom.includes(degree)
+                            return (
+                                <button
+                                    key={degree}
+                                    onClick={() => setKeySignature({
+                                        ...keySignature,
+                                        custom: on ? keySignature.custom.filter(d => d !== degree) : [...keySignature.custom, degree]
+                                    })}
+                                    style={{ padding: '2px 4px', fontSize: 11, background: on ? '#7fb069' : undefined }}
+                                >
+                                    {pitchClassNames[(keySignature.root + degree) % 12]}
+                                </button>
+                            )
+                        })}
+                    </span>
+                )}
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: 10 }}>
+                    <input type="checkbox" checked={scaleView.fold} disabled={!keyActive} onChange={(e) => setFold(e.target.checked)} />
+                    Fold to scale
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <input
+                        type="checkbox"
+                        checked={scaleView.snap}
+                        disabled={!keyActive}
+                        onChange={(e) => setScaleView({ ...scaleView, snap: e.target.checked })}
+                    />
+                    Snap to scale
+                </label>
+                <button onClick={conformSelection} disabled={!keyActive} style={{ padding: '4px 12px' }}>
+                    Conform to scale
+                </button>
+                <button
+                    onClick={() => setChordTool({ ...chordTool, enabled: !chordTool.enabled })}
+                    title="Click the grid to place a whole chord rooted on that row"
+                    style={{ padding: '4px 12px', marginLeft: 20, background: chordTool.enabled ? '#c9a227' : undefined }}
+                >
+                    Chord tool {chordTool.enabled ? 'on' : 'off'}
+                </button>
+                <select
+                    value={chordTool.type}
+                    onChange={(e) => setChordTool({ ...chordTool, type: e.target.value, inversion: 0 })}
+                    style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                >
+                    {chordTypes.map(type => <option key={type.id} value={type.id}>{type.name}</option>)}
+                </select>
+                <select
+                    value={chordTool.inversion}
+                    onChange={(e) => setChordTool({ ...chordTool, inversion: Number(e.target.value) })}
+                    style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                >
+                    {(chordTypes.find(type => type.id === chordTool.type)?.intervals ?? []).map((_, inversion) => (
+                        <option key={inversion} value={inversion}>
+                            {inversion === 0 ? 'Root position' : `Inversion ${inversion}`}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    value={chordTool.voicing}
+                    onChange={(e) => setChordTool({ ...chordTool, voicing: e.target.value as ChordShape['voicing'] })}
+                    style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                >
+                    <option value="close">Close</option>
+                    <option value="drop2">Drop 2</option>
+                    <option value="open">Open</option>
+                </select>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: 10 }}>
+                    Chord names:
+                    <select
+                        value={chordDetection}
+                        onChange={(e) => setChordDetection(e.target.value as 'off' | 'beat' | 'bar')}
+                        style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                    >
+                        <option value="off">Off</option>
+                        <option value="beat">Per beat</option>
+                        <option value="bar">Per bar</option>
+                    </select>
+                </label>
+            </div>
+            {drumView && (
+                <div style={{ marginBottom: 10, display: 'flex', alignItems: 'center', gap: '10px', fontSize: 14 }}>
+                    <strong>Drums:</strong>
+                    <button
+                        onClick={() => setDrumSettings({ ...drumSettings, step: !drumSettings.step })}
+                        title="Click a cell to add or remove a one-step hit"
+                        style={{ padding: '4px 12px', background: drumSettings.step ? '#c9a227' : undefined }}
+                    >
+                        Step sequencer {drumSettings.step ? 'on' : 'off'}
+                    </button>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                        <input
+                            type="checkbox"
+                            checked={drumSettings.all}
+                            onChange={(e) => setDrumSettings({ ...drumSettings, all: e.target.checked })}
+                        />
+                        All GM drums
+                    </label>
+                    <select
+                        value=""
+                        disabled={drumSettings.all}
+                        onChange={(e) => {
+                            const midi = Number(e.target.value)
+                            const favourites = drumSettings.favourites.includes(midi)
+                                ? drumSettings.favourites.filter(m => m !== midi)
+                                : [...drumSettings.favourites, midi]
+                            setDrumSettings({ ...drumSettings, favourites })
+                        }}
+                        title="Favourite rows are shown even when empty"
+                        style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                    >
+                        <option value="" disabled>Favourite rows…</option>
+                        {gmDrums.map(drum => (
+                            <option key={drum.midi} value={drum.midi}>
+                                {drumSettings.favourites.includes(drum.midi) ? '★ ' : ''}{drum.name} ({drum.midi})
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+            <div style={{ marginBottom: 10, display: 'flex', alignItems: 'center', gap: '10px', fontSize: 14 }}>
+                <button
+                    onClick={requestSuggestions}
+                    disabled={suggesting || drumView}
+                    title={drumView ? 'Suggestions are for melodic tracks' : 'Suggest a continuation over the loop region, or the next two bars from the playhead'}
+                    style={{ padding: '4px 12px' }}
+                >
+                    {suggesting ? 'Thinking…' : 'Suggest melody'}
+                </button>
+                {suggestion && (
+                    <>
+                        <span>
+                            Candidate {suggestion.index + 1}/{suggestion.candidates.length} ({suggestion.provider})
+                        </span>
+                        <button onClick={acceptSuggestion} style={{ padding: '4px 12px', background: '#7fb069' }}>Accept</button>
+                        <button onClick={nextSuggestion} disabled={suggesting} style={{ padding: '4px 12px' }}>Next</button>
+                        <button onClick={() => setSuggestion(null)} style={{ padding: '4px 12px' }}>Reject</button>
+                        {suggestion.warning && <span style={{ color: '#a0522d', fontSize: 12 }}>{suggestion.warning}</span>}
+                    </>
+                )}
+            </div>
+            <div style={{ marginBottom: 10, display: 'flex', alignItems: 'center', gap: '10px', fontSize: 14 }}>
+                <strong>Record:</strong>
+                <select
+                    value={recordSettings.mode}
+                    onChange={(e) => setRecordSettings({ ...recordSettings, mode: e.target.value as 'overdub' | 'replace' })}
+                    style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                >
+                    <option value="overdub">Overdub</option>
+                    <option value="replace">Replace</option>
+                </select>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <input
+                        type="checkbox"
+                        checked={recordSettings.quantize}
+                        onChange={(e) => setRecordSettings({ ...recordSettings, quantize: e.target.checked })}
+                    />
+                    Quantize input
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: 20 }}>
+                    Velocity:
+                    <select
+                        value={recordSettings.velocity}
+                        onChange={(e) => setRecordSettings({ ...recordSettings, velocity: e.target.value as 'fixed' | 'random' })}
+                        style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                    >
+                        <option value="random">Random (64-102)</option>
+                        <option value="fixed">Fixed</option>
+                    </select>
+                </label>
+                {recordSettings.velocity === 'fixed' && (
+                    <input
+                        type="number"
+                        min="1"
+                        max="127"
+                        value={recordSettings.fixedVelocity}
+                        onChange={(e) => setRecordSettings({ ...recordSettings, fixedVelocity: Math.max(1, Math.min(127, Number(e.target.value) || 1)) })}
+                        style={{ width: 50, padding: '4px' }}
+                    />
+                )}
+                <span style={{ marginLeft: 20 }}>Keyboard octave:</span>
+                <button onClick={() => setOctaveShift(Math.max(minOctaveShift, octaveShift - 1))} disabled={octaveShift <= minOctaveShift} title="Octave down (-)">
+                    −
+                </button>
+                <span style={{ minWidth: 60, textAlign: 'center' }}>C{4 + octaveShift}–B{5 + octaveShift}</span>
+                <button onClick={() => setOctaveShift(Math.min(maxOctaveShift, octaveShift + 1))} disabled={octaveShift >= maxOctaveShift} title="Octave up (=)">
+                    +
+                </button>
+                <button
+                    onClick={() => setMetronome({ ...metronome, enabled: !metronome.enabled })}
+                    title="Click on every beat, accented on the downbeat"
+                    style={{ padding: '4px 12px', marginLeft: 20, background: metronome.enabled ? '#7fb069' : undefined }}
+                >
+                    Metronome {metronome.enabled ? 'on' : 'off'}
+                </button>
+                <input
+                    type="range"
+                    min="-30"
+                    max="6"
+                    step="1"
+                    value={metronome.volume}
+                    onChange={(e) => setMetronome({ ...metronome, volume: Number(e.target.value) })}
+                    title={`Metronome volume: ${metronome.volume} dB`}
+                    style={{ width: 70 }}
+                />
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    Count-in:
+                    <select
+                        value={metronome.countInBars}
+                        onChange={(e) => setMetronome({ ...metronome, countInBars: Number(e.target.value) })}
+                        style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }}
+                    >
+                        <option value={0}>Off</option>
+                        <option value={1}>1 bar</option>
+                        <option value={2}>2 bars</option>
+                    </select>
+                </label>
+            </div>
+            <ArpeggiatorPanel
+                settings={arp}
+                live={arp.live}
+                target={selection.size ? `the ${selection.size} selected note${selection.size === 1 ? '' : 's'}` : 'all notes'}
+                onChange={patch => setArp({ ...arp, ...patch })}
+                onLiveChange={live => setArp({ ...arp, live })}
+                onRender={renderArpeggioToNotes}
+            />
+            <MidiDevices
+                connected={midiPorts !== null}
+                error={midiError}
+                inputs={midiPorts?.inputs ?? []}
+                outputs={midiPorts?.outputs ?? []}
+                settings={midiSettings}
+                onConnect={connectMidi}
+                onChange={(patch) => {
+                    // Silence the old output before switching away from it
+                    if ('outputId' in patch || 'outputChannel' in patch) silenceMidiOutput()
+                    setMidiSettings({ ...midiSettings, ...patch })
+                }}
+            />
+            <div style={{ marginBottom: 10, display: 'flex', alignItems: 'center', gap: '10px', fontSize: 13, flexWrap: 'wrap' }}>
+                <strong>Tempo map:</strong>
+                {tempoMap.tempos.slice(1).map(t => (
+                    <span key={`tempo_${t.tick}`} style={{ padding: '2px 6px', background: '#eee', borderRadius: 4 }}>
+                        Bar {tickToBar(tempoMap, t.tick, PPQ)}: {t.bpm} BPM
+                        <button onClick={() => removeTempoChange(t.tick)} style={{ marginLeft: 4 }} title="Remove tempo change">×</button>
+                    </span>
+                ))}
+                {tempoMap.timeSignatures.slice(1).map(ts => (
+                    <span key={`meter_${ts.tick}`} style={{ padding: '2px 6px', background: '#eee', borderRadius: 4 }}>
+                        Bar {tickToBar(tempoMap, ts.tick, PPQ)}: {ts.numerator}/{ts.denominator}
+                        <button onClick={() => removeMeterChange(ts.tick)} style={{ marginLeft: 4 }} title="Remove time signature change">×</button>
+                    </span>
+                ))}
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: 10 }}>
+                    At bar
+                    <input
+                        type="number"
+                        min="2"
+                        value={markerBar}
+                        onChange={(e) => setMarkerBar(Math.max(2, Number(e.target.value)))}
+                        style={{ width: 50, padding: '2px' }}
+                    />
+                </label>
+                <input
+                    type="number"
+                    min={MIN_BPM}
+                    max={MAX_BPM}
+                    value={markerBpm}
+                    onChange={(e) => setMarkerBpm(Number(e.target.value))}
+                    style={{ width: 55, padding: '2px' }}
+                />
+                <button onClick={addTempoChange}>Add tempo</button>
+                <input
+                    type="number"
+                    min="1"
+                    max="32"
+                    value={markerMeter.numerator}
+                    onChange={(e) => setMarkerMeter({ ...markerMeter, numerator: Number(e.target.value) })}
+                    style={{ width: 40, padding: '2px' }}
+                />
+                /
+                <select
+                    value={markerMeter.denominator}
+                    onChange={(e) => setMarkerMeter({ ...markerMeter, denominator: Number(e.target.value) })}
+                >
+                    {[2, 4, 8, 16].map(d => <option key={d} value={d}>{d}</option>)}
+                </select>
+                <button onClick={addMeterChange}>Add time signature</button>
+            </div>
+            <TrackList
+                tracks={tracks}
+                activeTrackId={activeTrack.id}
+                instruments={instrumentLabels}
+                onSelect={selectTrack}
+                onChange={updateTrack}
+                onAdd={addTrack}
+                onRemove={removeTrack}
+            />
+            <SoundDesigner
+                preset={activePreset}
+                shared={!!activePreset && tracks.filter(track => track.instrument === activePreset.id).length > 1}
+                canDelete={presets.length > 1}
+                onChange={changePreset}
+                onSaveAs={() => activePreset && addPreset(copyPreset(activePreset, `${activePreset.name} copy`))}
+                onDelete={deletePreset}
+                onExport={exportPreset}
+                onImport={importPreset}
+                onAddSamples={addSamples}
+                sampleErrors={sampleErrors}
+            />
+            <TimelineRuler
+                width={canvasWidth}
+                height={rulerHeight}
+                gutter={pianoWidth}
+                ppq={PPQ}
+                pixelsPerTick={pixelsPerTick}
+                scrollTick={scrollTick}
+                tempoMap={tempoMap}
+                cursorTick={cursorTick}
+                loop={loop}
+                onSeek={seek}
+                onLoopChange={setLoopRegion}
+            />
+            {chordDetection !== 'off' && (
+                <ChordLane
+                    width={canvasWidth}
+                    height={chordLaneHeight}
+                    gutter={pianoWidth}
+                    pixelsPerTick={pixelsPerTick}
+                    scrollTick={scrollTick}
+                    labels={chordLaneLabels}
+                />
+            )}
             <canvas
                 ref={canvasRef}
                 width={canvasWidth}
@@ -860,29 +2662,55 @@ export default function PianoRoll() {
                 onMouseDown={handleCanvasMouseDown}
                 onMouseMove={handleCanvasMouseMove}
                 onMouseUp={handleCanvasMouseUp}
-                onMouseLeave={handleCanvasMouseUp}
+                onMouseLeave={handleCanvasMouseLeave}
                 onContextMenu={handleCanvasRightClick}
-                onWheel={handleCanvasWheel}
                 style={{
                     border: '1px solid #5a6068',
                     borderRadius: 2,
-                    cursor: dragInfo.current?.isDragging ? 'grabbing' : 'crosshair',
+                    cursor: dragInfo.current?.isResizing || hoverEdge
+                        ? 'ew-resize'
+                        : dragInfo.current?.isDragging ? 'grabbing' : 'crosshair',
                     backgroundColor: '#3c4043',
                     display: 'block'
                 }}
             />
+            <VelocityLane
+                notes={notes}
+                selection={selection}
+                width={canvasWidth}
+                height={velocityLaneHeight}
+                gutter={pianoWidth}
+                pixelsPerTick={pixelsPerTick}
+                scrollTick={scrollTick}
+                onChange={handleVelocityChange}
+            />
+            <input
+                type="range"
+                aria-label="Scroll timeline"
+                min={0}
+                max={maxScrollTick}
+                step={1}
+                value={Math.min(scrollTick, maxScrollTick)}
+                onChange={(e) => setScrollTick(Number(e.target.value))}
+                disabled={maxScrollTick === 0}
+                style={{ display: 'block', width: canvasWidth - pianoWidth, marginLeft: pianoWidth, marginTop: 4 }}
+            />
             <div style={{ marginTop: 10, color: '#666', fontSize: 14 }}>
                 <p>Click on the grid to add notes • Notes: {notes.length}</p>
-                {selectedInstrument === 'piano' && !samplesLoaded && (
+                {!samplesLoaded && (
                     <p style={{ marginTop: 5, color: '#ff6b6b' }}>
-                        <strong>Loading piano samples...</strong> Please wait before playing.
+                        <strong>
+                            {sampleProgress ? `Loading samples... ${sampleProgress.loaded} of ${sampleProgress.total}` : 'Preparing instruments...'}
+                        </strong>{' '}
+                        {sampleProgress && <progress value={sampleProgress.loaded} max={sampleProgress.total} style={{ width: 80, verticalAlign: 'middle' }} />}{' '}
+                        Please wait before playing.
                     </p>
                 )}
                 <p style={{ marginTop: 5 }}>
-                    <strong>Keyboard shortcuts:</strong> ZXCVBNM (white keys) • SDGHJ (black keys) • QWERTY (higher octave)
+                    <strong>Keyboard shortcuts:</strong> ZXCVBNM (white keys) • SDGHJ (black keys) • QWERTY (higher octave) • - / = shift the octave • ● Rec records what you play while the song runs
                 </p>
                 <p style={{ marginTop: 5, fontSize: 12 }}>
-                    <strong>Piano Roll:</strong> Click = Add note • Drag = Move note • Right-click = Delete • Del/Backspace = Delete selected • Scroll = Change octave
+                    <strong>Piano Roll:</strong> Click = Add note • Drag = Move selection • Drag note edge = Resize • Hold Alt = Bypass snap • Drag empty grid = Select • Shift/Ctrl-click = Toggle • Ctrl+A = Select all • Ctrl+C/X/V = Copy/Cut/Paste • Ctrl+D = Duplicate • Velocity lane: drag stems, drag empty space to draw a ramp, wheel adjusts selection • Chord tool on = Click places a chord • Right-click = Delete • Del/Backspace = Delete selected • Ctrl+Z / Ctrl+Shift+Z = Undo / Redo • Click ruler = Move playhead • Drag ruler = Set loop • Space = Play/Pause • Scroll = Change octave • Shift+Scroll = Scroll time • Ctrl+Scroll = Zoom
                 </p>
             </div>
             
@@ -894,6 +2722,13 @@ export default function PianoRoll() {
                 onChange={handleFileImport}
                 style={{ display: 'none' }}
             />
+            <input
+                ref={projectInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleProjectOpen}
+                style={{ display: 'none' }}
+            />
         </div>
     )
 }
\ No newline at end of file
@@ -0,0 +1,380 @@
+'use client'
+import React, { useRef, useState } from 'react'
+import {
+    Effect,
+    EffectType,
+    Envelope,
+    InstrumentPreset,
+    ParamRange,
+    SamplerSettings,
+    VoiceType,
+    Waveform,
+    effectDefaults,
+    effectRanges,
+    emptySampler,
+    envelopeRanges,
+    filterTypes,
+    voiceRanges,
+    voiceTypes,
+    waveforms
+} from '../lib/presets'
+import { audioExtensions, evenLayers, filesFromDrop, midiNoteName } from '../lib/samples'
+
+
+type SoundDesignerProps = {
+    preset: InstrumentPreset | null // null when the active track plays a drum kit
+    shared: boolean // other tracks use this preset too, so edits change them as well
+    canDelete: boolean
+    onChange: (preset: InstrumentPreset) => void // every edit, applied to the sound right away
+    onSaveAs: () => void
+    onDelete: () => void
+    onExport: () => void
+    onImport: (file: File) => void
+    onAddSamples: (files: File[]) => void // audio files or folder contents for the sampler
+    sampleErrors: { [sample: string]: string } // samples that failed to load, by key
+}
+
+const selectStyle: React.CSSProperties = { padding: '2px 4px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: 'white' }
+
+const effectLabels: { [T in EffectType]: string } = {
+    filter: 'Filter',
+    compressor: 'Compressor',
+    eq: 'EQ',
+    chorus: 'Chorus',
+    delay: 'Delay',
+    reverb: 'Reverb'
+}
+
+// One labelled slider; ranges come from lib/presets so the UI can't produce an invalid preset
+function Param({ range, value, onChange }: { range: ParamRange; value: number; onChange: (value: number) => void }) {
+    return (
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '4px', marginRight: 12 }}>
+            {range.label}
+            <input
+                type="range"
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+                style={{ width: 90 }}
+            />
+            <span style={{ width: 44 }}>{Number(value.toFixed(3))}</span>
+        </label>
+    )
+}
+
+function EnvelopeParams({ envelope, onChange }: { envelope: Envelope; onChange: (envelope: Envelope) => void }) {
+    return (
+        <>
+            {(Object.keys(envelopeRanges) as (keyof Envelope)[]).map(key => (
+                <Param key={key} range={envelopeRanges[key]} value={envelope[key]} onChange={value => onChange({ ...envelope, [key]: value })} />
+            ))}
+        </>
+    )
+}
+
+const midiNotes = Array.from({ length: 128 }, (_, midi) => midi)
+
+// Sample files, their root notes and velocity layers
+function SamplerParams({ sampler, errors, onChange, onAddSamples }: {
+    sampler: SamplerSettings
+    errors: { [sample: string]: string }
+    onChange: (sampler: SamplerSettings) => void
+    onAddSamples: (files: File[]) => void
+}) {
+    const [dragging, setDragging] = useState(false)
+    const filesRef = useRef<HTMLInputElement | null>(null)
+    const folderRef = useRef<HTMLInputElement | null>(null)
+    const { zones, layers } = sampler
+    const row: React.CSSProperties = { display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '6px', marginTop: 6 }
+
+    const pickFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files?.length) onAddSamples(Array.from(e.target.files))
+        e.target.value = ''
+    }
+    const drop = async (e: React.DragEvent) => {
+        e.preventDefault()
+        setDragging(false)
+        const files = await filesFromDrop(e.dataTransfer)
+        if (files.length) onAddSamples(files)
+    }
+    // Each layer ends where the next begins, so tops stay ascending and the last one stays 127
+    const setLayerTop = (index: number, top: number) => {
+        const min = index ? layers[index - 1] + 1 : 1
+        const max = layers[index + 1] - 1
+        onChange({ ...sampler, layers: layers.map((t, i) => i === index ? Math.max(min, Math.min(max, Math.round(top) || min)) : t) })
+    }
+    const removeLayer = (index: number) => {
+        const next = layers.filter((_, i) => i !== index)
+        next[next.length - 1] = 127
+        onChange({
+            layers: next,
+            zones: zones.map(zone => zone.layer < index ? zone : { ...zone, layer: Math.max(0, zone.layer - 1) })
+        })
+    }
+    const order = zones.map((zone, i) => ({ zone, i })).sort((a, b) => a.zone.layer - b.zone.layer || a.zone.root - b.zone.root)
+
+    return (
+        <>
+            <div style={row}>
+                <strong style={{ width: 80 }}>Samples</strong>
+                <div
+                    onDragOver={(e) => { e.preventDefault(); setDragging(true) }}
+                    onDragLeave={() => setDragging(false)}
+                    onDrop={drop}
+                    style={{ padding: '6px 12px', border: `1px dashed ${dragging ? '#4a90d9' : '#999'}`, borderRadius: 4, background: dragging ? '#e8f0fb' : 'white', color: '#666' }}
+                >
+                    Drop {audioExtensions.join(' / ')} files or a folder here
+                </div>
+                <button onClick={() => filesRef.current?.click()} style={{ padding: '2px 10px' }}>Add files…</button>
+                <button onClick={() => folderRef.current?.click()} style={{ padding: '2px 10px' }}>Add folder…</button>
+                <input ref={filesRef} type="file" multiple accept={audioExtensions.join(',')} style={{ display: 'none' }} onChange={pickFiles} />
+                <input
+                    ref={el => {
+                        folderRef.current = el
+                        el?.setAttribute('webkitdirectory', '')
+                    }}
+                    type="file"
+                    style={{ display: 'none' }}
+                    onChange={pickFiles}
+                />
+                <span style={{ color: '#666' }}>Notes like "C4" or "F#3" in file names set the root</span>
+            </div>
+            <div style={row} title="Notes up to a layer's velocity play its samples">
+                <strong style={{ width: 80 }}>Velocity</strong>
+                {layers.map((top, i) => (
+                    <span key={i} style={{ display: 'inline-flex', alignItems: 'center', gap: '4px', marginRight: 8 }}>
+                        Layer {i + 1} up to
+                        <input
+                            type="number"
+                            min={1}
+                            max={127}
+                            value={top}
+                            disabled={i === layers.length - 1}
+                            onChange={(e) => setLayerTop(i, Number(e.target.value))}
+                            style={{ width: 50, padding: '2px 4px' }}
+                        />
+                        {layers.length > 1 && <button onClick={() => removeLayer(i)} title="Remove layer; its samples join the layer below">✕</button>}
+                    </span>
+                ))}
+                <button
+                    onClick={() => onChange({ ...sampler, layers: evenLayers(layers.length + 1) })}
+                    disabled={layers.length >= 16}
+                    style={{ padding: '2px 10px' }}
+                >
+                    Add layer
+                </button>
+            </div>
+            {order.map(({ zone, i }) => (
+                <div key={zone.sample} style={{ ...row, marginTop: 2, marginLeft: 86 }}>
+                    <span style={{ width: 200, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={zone.name}>{zone.name}</span>
+                    <select
+                        value={zone.root}
+                        onChange={(e) => onChange({ ...sampler, zones: zones.map((z, j) => j === i ? { ...z, root: Number(e.target.value) } : z) })}
+                        title="Root note: the pitch the file was recorded at"
+                        style={selectStyle}
+                    >
+                        {midiNotes.map(midi => <option key={midi} value={midi}>{midiNoteName(midi)}</option>)}
+                    </select>
+                    {layers.length > 1 && (
+                        <select
+                            value={zone.layer}
+                            onChange={(e) => onChange({ ...sampler, zones: zones.map((z, j) => j === i ? { ...z, layer: Number(e.target.value) } : z) })}
+                            style={selectStyle}
+                        >
+                            {layers.map((_, layer) => <option key={layer} value={layer}>Layer {layer + 1}</option>)}
+                        </select>
+                    )}
+                    <button onClick={() => onChange({ ...sampler, zones: zones.filter((_, j) => j !== i) })} title="Remove sample">✕</button>
+                    {errors[zone.sample] && <span style={{ color: '#c55569' }}>Not loaded: {errors[zone.sample]}</span>}
+                </div>
+            ))}
+        </>
+    )
+}
+
+export default function SoundDesigner({ preset, shared, canDelete, onChange, onSaveAs, onDelete, onExport, onImport, onAddSamples, sampleErrors }: SoundDesignerProps) {
+    const [open, setOpen] = useState(false)
+    const importRef = useRef<HTMLInputElement | null>(null)
+
+    const header = (
+        <button onClick={() => setOpen(!open)} style={{ padding: '4px 12px' }}>
+            Sound designer {open ? '▾' : '▸'}
+        </button>
+    )
+    if (!open) return <div style={{ marginBottom: 10 }}>{header}</div>
+    if (!preset) {
+        return (
+            <div style={{ marginBottom: 10, fontSize: 14 }}>
+                {header}
+                <span style={{ marginLeft: 10, color: '#666' }}>Drum kits have no editable parameters.</span>
+            </div>
+        )
+    }
+
+    const update = (patch: Partial<InstrumentPreset>) => onChange({ ...preset, ...patch })
+    const updateEffect = (index: number, effect: Effect) =>
+        update({ effects: preset.effects.map((e, i) => i === index ? effect : e) })
+    const moveEffect = (index: number, by: number) => {
+        const effects = [...preset.effects]
+        const [effect] = effects.splice(index, 1)
+        effects.splice(index + by, 0, effect)
+        update({ effects })
+    }
+    const row: React.CSSProperties = { display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '6px', marginTop: 6 }
+    const sampler = preset.voice === 'sampler' ? preset.sampler ?? emptySampler() : null
+
+    return (
+        <div style={{ marginBottom: 10, fontSize: 13 }}>
+            {header}
+            <div style={{ marginTop: 6, padding: 10, background: '#f4f4f4', borderRadius: 4 }}>
+                <div style={row}>
+                    <input
+                        value={preset.name}
+                        onChange={(e) => update({ name: e.target.value })}
+                        title="Rename this preset"
+                        style={{ width: 140, padding: '2px 4px', fontWeight: 'bold' }}
+                    />
+                    <button onClick={onSaveAs} style={{ padding: '2px 10px' }}>Save as new</button>
+                    <button onClick={onDelete} disabled={!canDelete} title="Tracks using this preset switch to another one" style={{ padding: '2px 10px' }}>
+                        Delete
+                    </button>
+                    <button onClick={onExport} style={{ padding: '2px 10px' }}>Share…</button>
+                    <button onClick={() => importRef.current?.click()} style={{ padding: '2px 10px' }}>Import…</button>
+                    <input
+                        ref={importRef}
+                        type="file"
+                        accept=".json,application/json"
+                        style={{ display: 'none' }}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0]
+                            if (file) onImport(file)
+                            e.target.value = ''
+                        }}
+                    />
+                    {shared && <span style={{ color: '#a0522d' }}>Other tracks use this preset too</span>}
+                </div>
+                <div style={row}>
+                    <strong style={{ width: 80 }}>Voice</strong>
+                    <select
+                        value={preset.voice}
+                        onChange={(e) => {
+                            const voice = e.target.value as VoiceType
+                            update(voice === 'sampler' ? { voice, sampler: preset.sampler ?? emptySampler() } : { voice })
+                        }}
+                        style={selectStyle}
+                    >
+                        {voiceTypes.map(voice => (
+                            <option key={voice.id} value={voice.id}>{voice.label}</option>
+                        ))}
+                    </select>
+                    {!sampler && (
+                        <select value={preset.oscillator} onChange={(e) => update({ oscillator: e.target.value as Waveform })} style={selectStyle}>
+                            {waveforms.map(waveform => (
+                                <option key={waveform} value={waveform}>{waveform}</option>
+                            ))}
+                        </select>
+                    )}
+                    <Param range={voiceRanges.volume} value={preset.volume} onChange={volume => update({ volume })} />
+                    <label style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }} title="General MIDI program written on MIDI export">
+                        GM program
+                        <input
+                            type="number"
+                            min={0}
+                            max={127}
+                            value={preset.program}
+                            onChange={(e) => update({ program: Math.max(0, Math.min(127, Math.round(Number(e.target.value)) || 0)) })}
+                            style={{ width: 50, padding: '2px 4px' }}
+                        />
+                    </label>
+                </div>
+                <div style={row}>
+                    <strong style={{ width: 80 }}>Envelope</strong>
+                    {sampler ? (
+                        <>
+                            <Param range={envelopeRanges.attack} value={preset.envelope.attack} onChange={attack => update({ envelope: { ...preset.envelope, attack } })} />
+                            <Param range={envelopeRanges.release} value={preset.envelope.release} onChange={release => update({ envelope: { ...preset.envelope, release } })} />
+                        </>
+                    ) : (
+                        <EnvelopeParams envelope={preset.envelope} onChange={envelope => update({ envelope })} />
+                    )}
+                </div>
+                {sampler && <SamplerParams sampler={sampler} errors={sampleErrors} onChange={next => update({ sampler: next })} onAddSamples={onAddSamples} />}
+                {(preset.voice === 'fm' || preset.voice === 'am') && (
+                    <div style={row}>
+                        <strong style={{ width: 80 }}>Modulation</strong>
+                        <select
+                            value={preset.modulation.type}
+                            onChange={(e) => update({ modulation: { ...preset.modulation, type: e.target.value as Waveform } })}
+                            style={selectStyle}
+                        >
+                            {waveforms.map(waveform => (
+                                <option key={waveform} value={waveform}>{waveform}</option>
+                            ))}
+                        </select>
+                        <Param
+                            range={voiceRanges.harmonicity}
+                            value={preset.modulation.harmonicity}
+                            onChange={harmonicity => update({ modulation: { ...preset.modulation, harmonicity } })}
+                        />
+                        {preset.voice === 'fm' && (
+                            <Param
+                                range={voiceRanges.index}
+                                value={preset.modulation.index}
+                                onChange={index => update({ modulation: { ...preset.modulation, index } })}
+                            />
+                        )}
+                        <EnvelopeParams
+                            envelope={preset.modulation.envelope}
+                            onChange={envelope => update({ modulation: { ...preset.modulation, envelope } })}
+                        />
+                    </div>
+                )}
+                {preset.effects.map((effect, i) => {
+                    const ranges = effectRanges[effect.type]
+                    const values = effect as unknown as { [param: string]: number }
+                    return (
+                        <div key={i} style={row}>
+                            <strong style={{ width: 80 }}>{i + 1}. {effectLabels[effect.type]}</strong>
+                            {effect.type === 'filter' && (
+                                <select
+                                    value={effect.filter}
+                                    onChange={(e) => updateEffect(i, { ...effect, filter: e.target.value as typeof filterTypes[number] })}
+                                    style={selectStyle}
+                                >
+                                    {filterTypes.map(type => (
+                                        <option key={type} value={type}>{type}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {Object.keys(ranges).map(param => (
+                                <Param
+                                    key={param}
+                                    range={ranges[param]}
+                                    value={values[param]}
+                                    onChange={value => updateEffect(i, { ...effect, [param]: value })}
+                                />
+                            ))}
+                            <button onClick={() => moveEffect(i, -1)} disabled={i === 0} title="Earlier in the chain">↑</button>
+                            <button onClick={() => moveEffect(i, 1)} disabled={i === preset.effects.length - 1} title="Later in the chain">↓</button>
+                            <button onClick={() => update({ effects: preset.effects.filter((_, j) => j !== i) })} title="Remove effect">✕</button>
+                        </div>
+                    )
+                })}
+                <div style={row}>
+                    <select
+                        value=""
+                        onChange={(e) => update({ effects: [...preset.effects, { ...effectDefaults[e.target.value as EffectType] }] })}
+                        style={selectStyle}
+                    >
+                        <option value="" disabled>Add effect…</option>
+                        {(Object.keys(effectLabels) as EffectType[]).map(type => (
+                            <option key={type} value={type}>{effectLabels[type]}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+        </div>
+    )
+}
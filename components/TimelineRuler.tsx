@@ -0,0 +1,168 @@
+'use client'
+import React, { useEffect, useRef, useState } from 'react'
+import { TempoMap, beatLines, timeSignatureAt } from '../lib/tempo'
+
+
+type TimelineRulerProps = {
+    width: number
+    height: number
+    gutter: number // width of the piano keys column, so bars line up with the grid
+    ppq: number
+    pixelsPerTick: number
+    scrollTick: number
+    tempoMap: TempoMap
+    cursorTick: number
+    loop: { enabled: boolean; start: number; end: number }
+    onSeek: (tick: number) => void // click
+    onLoopChange: (startTick: number, endTick: number) => void // drag
+}
+
+export default function TimelineRuler({ width, height, gutter, ppq, pixelsPerTick, scrollTick, tempoMap, cursorTick, loop, onSeek, onLoopChange }: TimelineRulerProps) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null)
+    // Mouse down on the ruler: a click seeks, a drag sets the loop
+    const [drag, setDrag] = useState<{ startX: number; dragging: boolean } | null>(null)
+
+    const tickToX = (tick: number) => gutter + (tick - scrollTick) * pixelsPerTick
+    const xToTick = (x: number) => scrollTick + (x - gutter) / pixelsPerTick
+
+    // Setup canvas size for high-DPI displays
+    useEffect(() => {
+        const cvs = canvasRef.current
+        if (!cvs) return
+        const dpr = window.devicePixelRatio || 1
+        cvs.width = width * dpr
+        cvs.height = height * dpr
+        cvs.getContext('2d')?.scale(dpr, dpr)
+        cvs.style.width = width + 'px'
+        cvs.style.height = height + 'px'
+    }, [width, height])
+
+    // draw ruler
+    useEffect(() => {
+        const cvs = canvasRef.current
+        if (!cvs) return
+        const ctx = cvs.getContext('2d')!
+
+        ctx.clearRect(0, 0, width, height)
+        ctx.fillStyle = '#2d3142'
+        ctx.fillRect(0, 0, width, height)
+
+        ctx.save()
+        ctx.beginPath()
+        ctx.rect(gutter, 0, width - gutter, height)
+        ctx.clip()
+
+        // Loop region
+        if (loop.end > loop.start) {
+            const x = tickToX(loop.start)
+            const loopW = (loop.end - loop.start) * pixelsPerTick
+            ctx.fillStyle = loop.enabled ? 'rgba(127, 176, 105, 0.45)' : 'rgba(155, 163, 175, 0.2)'
+            ctx.fillRect(x, height * 0.4, loopW, height * 0.6)
+            ctx.strokeStyle = loop.enabled ? '#7fb069' : '#5a6068'
+            ctx.lineWidth = 1
+            ctx.strokeRect(x, height * 0.4, loopW, height * 0.6)
+        }
+
+        // Bar numbers and beat ticks
+        const viewTicks = (width - gutter) / pixelsPerTick
+        const lines = beatLines(tempoMap, scrollTick, scrollTick + viewTicks, ppq)
+        // Skip bar labels when bars get too narrow to read
+        const meter = timeSignatureAt(tempoMap, scrollTick)
+        const barWidth = (ppq * 4 * meter.numerator / meter.denominator) * pixelsPerTick
+        const labelEvery = barWidth < 24 ? Math.ceil(24 / barWidth) : 1
+        lines.forEach(line => {
+            const x = tickToX(line.tick)
+            ctx.strokeStyle = line.isBar ? '#9ba3af' : '#5a6068'
+            ctx.lineWidth = 1
+            ctx.beginPath()
+            ctx.moveTo(x, line.isBar ? height * 0.4 : height * 0.7)
+            ctx.lineTo(x, height)
+            ctx.stroke()
+            if (line.isBar && (line.bar - 1) % labelEvery === 0) {
+                ctx.fillStyle = '#e8eaf0'
+                ctx.font = '10px Arial, sans-serif'
+                ctx.textAlign = 'left'
+                ctx.fillText(String(line.bar), x + 3, height * 0.4 + 6)
+            }
+        })
+
+        // Tempo and time signature change markers
+        const markers = new Map<number, string[]>()
+        tempoMap.tempos.forEach(t => markers.set(t.tick, [...(markers.get(t.tick) ?? []), `♩=${Math.round(t.bpm * 100) / 100}`]))
+        tempoMap.timeSignatures.forEach(ts => markers.set(ts.tick, [...(markers.get(ts.tick) ?? []), `${ts.numerator}/${ts.denominator}`]))
+        markers.forEach((labels, tick) => {
+            const x = tickToX(tick)
+            const label = labels.join('  ')
+            ctx.font = '9px Arial, sans-serif'
+            ctx.textAlign = 'left'
+            const labelW = ctx.measureText(label).width + 8
+            if (x + labelW < gutter || x > width) return
+            ctx.fillStyle = 'rgba(122, 104, 85, 0.9)'
+            ctx.fillRect(x, 0, labelW, 11)
+            ctx.fillStyle = '#ffffff'
+            ctx.fillText(label, x + 4, 8)
+        })
+
+        // Playhead marker
+        {
+            const x = tickToX(cursorTick)
+            ctx.fillStyle = '#ff4444'
+            ctx.beginPath()
+            ctx.moveTo(x - 5, height - 8)
+            ctx.lineTo(x + 5, height - 8)
+            ctx.lineTo(x, height)
+            ctx.closePath()
+            ctx.fill()
+        }
+        ctx.restore()
+
+        ctx.fillStyle = '#9ba3af'
+        ctx.font = '10px Arial, sans-serif'
+        ctx.textAlign = 'right'
+        ctx.fillText('Bar', gutter - 8, height / 2 + 3)
+    }, [width, height, gutter, ppq, pixelsPerTick, scrollTick, tempoMap, cursorTick, loop])
+
+    const position = (e: React.MouseEvent) => e.clientX - canvasRef.current!.getBoundingClientRect().left
+
+    const handleMouseDown = (e: React.MouseEvent) => {
+        if (e.button !== 0) return
+        const x = position(e)
+        if (x < gutter) return
+        setDrag({ startX: x, dragging: false })
+    }
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        if (!drag) return
+        const x = Math.max(gutter, position(e))
+        if (!drag.dragging && Math.abs(x - drag.startX) < 4) return
+        if (!drag.dragging) setDrag({ ...drag, dragging: true })
+        const a = xToTick(drag.startX)
+        const b = xToTick(x)
+        onLoopChange(Math.min(a, b), Math.max(a, b))
+    }
+
+    const handleMouseUp = () => {
+        if (drag && !drag.dragging) onSeek(xToTick(drag.startX))
+        setDrag(null)
+    }
+
+    return (
+        <canvas
+            ref={canvasRef}
+            width={width}
+            height={height}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => setDrag(null)}
+            style={{
+                border: '1px solid #5a6068',
+                borderBottom: 'none',
+                borderRadius: 2,
+                cursor: 'pointer',
+                backgroundColor: '#2d3142',
+                display: 'block'
+            }}
+        />
+    )
+}
@@ -0,0 +1,114 @@
+'use client'
+import React from 'react'
+import { MAX_VOLUME, MIN_VOLUME, Track } from '../lib/tracks'
+
+
+type TrackListProps = {
+    tracks: Track[]
+    activeTrackId: string
+    instruments: { [instrument: string]: string } // registry key -> label
+    onSelect: (id: string) => void
+    onChange: (id: string, patch: Partial<Track>) => void
+    onAdd: () => void
+    onRemove: (id: string) => void
+}
+
+export default function TrackList({ tracks, activeTrackId, instruments, onSelect, onChange, onAdd, onRemove }: TrackListProps) {
+    const toggleStyle = (on: boolean, color: string): React.CSSProperties => ({
+        padding: '2px 8px',
+        fontWeight: 'bold',
+        background: on ? color : undefined,
+        color: on ? '#ffffff' : undefined
+    })
+
+    return (
+        <div style={{ marginBottom: 10, fontSize: 13 }}>
+            {tracks.map(track => {
+                const active = track.id === activeTrackId
+                return (
+                    <div
+                        key={track.id}
+                        onClick={() => onSelect(track.id)}
+                        style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '8px',
+                            padding: '4px 8px',
+                            marginBottom: 2,
+                            borderRadius: 4,
+                            borderLeft: `4px solid ${active ? '#d4627a' : 'transparent'}`,
+                            background: active ? '#f3e4e8' : '#f4f4f4',
+                            cursor: 'pointer'
+                        }}
+                    >
+                        <input
+                            value={track.name}
+                            onChange={(e) => onChange(track.id, { name: e.target.value })}
+                            style={{ width: 120, padding: '2px 4px' }}
+                        />
+                        <select
+                            value={track.instrument}
+                            onChange={(e) => onChange(track.id, { instrument: e.target.value })}
+                            style={{ padding: '2px 4px' }}
+                        >
+                            {Object.entries(instruments).map(([key, label]) => (
+                                <option key={key} value={key}>{label}</option>
+                            ))}
+                        </select>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                            Vol
+                            <input
+                                type="range"
+                                min={MIN_VOLUME}
+                                max={MAX_VOLUME}
+                                step="1"
+                                value={track.volume}
+                                onChange={(e) => onChange(track.id, { volume: Number(e.target.value) })}
+                            />
+                            <span style={{ width: 44 }}>{track.volume} dB</span>
+                        </label>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                            Pan
+                            <input
+                                type="range"
+                                min="-1"
+                                max="1"
+                                step="0.1"
+                                value={track.pan}
+                                onChange={(e) => onChange(track.id, { pan: Number(e.target.value) })}
+                                onDoubleClick={() => onChange(track.id, { pan: 0 })}
+                                style={{ width: 70 }}
+                            />
+                        </label>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onChange(track.id, { mute: !track.mute }) }}
+                            title="Mute"
+                            style={toggleStyle(track.mute, '#c55569')}
+                        >
+                            M
+                        </button>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onChange(track.id, { solo: !track.solo }) }}
+                            title="Solo"
+                            style={toggleStyle(track.solo, '#c9a227')}
+                        >
+                            S
+                        </button>
+                        <span style={{ color: '#666' }}>{track.notes.length} notes</span>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onRemove(track.id) }}
+                            disabled={tracks.length === 1}
+                            title="Delete track"
+                            style={{ marginLeft: 'auto' }}
+                        >
+                            ×
+                        </button>
+                    </div>
+                )
+            })}
+            <button onClick={onAdd} style={{ padding: '4px 12px', marginTop: 4 }}>
+                + Add track
+            </button>
+        </div>
+    )
+}
@@ -0,0 +1,128 @@
+'use client'
+import React, { useState } from 'react'
+import { Note } from '../lib/notes'
+import { KeySignature, hasKey, pitchClassNames } from '../lib/scales'
+import { humanize, invert, legato, retrograde, stretch, strum, transpose } from '../lib/transforms'
+
+
+type TransformMenuProps = {
+    keySignature: KeySignature
+    ppq: number
+    target: string // what the transforms will act on, e.g. "4 selected notes"
+    onApply: (label: string, transform: (notes: Note[]) => Note[]) => void
+}
+
+const noteName = (midi: number) => `${pitchClassNames[midi % 12]}${Math.floor(midi / 12) - 1}`
+
+export default function TransformMenu({ keySignature, ppq, target, onApply }: TransformMenuProps) {
+    const [open, setOpen] = useState(false)
+    const [semitones, setSemitones] = useState(12)
+    const [pivot, setPivot] = useState(60)
+    const [diatonic, setDiatonic] = useState(false)
+    const [factor, setFactor] = useState(2)
+    const [timing, setTiming] = useState(ppq / 32)
+    const [velocity, setVelocity] = useState(10)
+    const [seed, setSeed] = useState(1)
+    const [strumTicks, setStrumTicks] = useState(ppq / 16)
+    const [strumDirection, setStrumDirection] = useState<'up' | 'down'>('up')
+
+    const row: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '6px', marginBottom: 6 }
+    const number = (value: number, onChange: (value: number) => void, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+        <input
+            type="number"
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            style={{ width: 60, padding: '2px 4px' }}
+            {...props}
+        />
+    )
+
+    return (
+        <span style={{ position: 'relative' }}>
+            <button onClick={() => setOpen(!open)} style={{ padding: '4px 12px' }}>
+                Transform ▾
+            </button>
+            {open && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        top: '100%',
+                        left: 0,
+                        zIndex: 10,
+                        marginTop: 4,
+                        padding: 10,
+                        minWidth: 360,
+                        background: '#ffffff',
+                        border: '1px solid #ccc',
+                        borderRadius: 4,
+                        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+                        fontSize: 13
+                    }}
+                >
+                    <div style={{ color: '#666', marginBottom: 8 }}>Applies to {target}</div>
+                    <div style={row}>
+                        Transpose
+                        {number(semitones, setSemitones)}
+                        semitones
+                        <button onClick={() => onApply('Transpose', notes => transpose(notes, semitones))}>Apply</button>
+                        <button onClick={() => onApply('Transpose', notes => transpose(notes, 12))}>+8va</button>
+                        <button onClick={() => onApply('Transpose', notes => transpose(notes, -12))}>-8va</button>
+                    </div>
+                    <div style={row}>
+                        Invert around
+                        {number(pivot, value => setPivot(Math.max(21, Math.min(108, value))), { min: 21, max: 108 })}
+                        <span style={{ width: 30 }}>{noteName(pivot)}</span>
+                        <label title={hasKey(keySignature) ? 'Mirror scale degrees so the result stays in key' : 'Set a key to invert diatonically'}>
+                            <input
+                                type="checkbox"
+                                checked={diatonic && hasKey(keySignature)}
+                                disabled={!hasKey(keySignature)}
+                                onChange={(e) => setDiatonic(e.target.checked)}
+                            />
+                            diatonic
+                        </label>
+                        <button onClick={() => onApply('Invert', notes => invert(notes, pivot, diatonic && hasKey(keySignature) ? keySignature : undefined))}>
+                            Apply
+                        </button>
+                    </div>
+                    <div style={row}>
+                        <button onClick={() => onApply('Retrograde', retrograde)}>Retrograde</button>
+                        <button onClick={() => onApply('Legato', legato)}>Legato</button>
+                    </div>
+                    <div style={row}>
+                        Time-stretch ×
+                        {number(factor, setFactor, { min: 0.125, max: 8, step: 0.25 })}
+                        <button onClick={() => onApply('Time-stretch', notes => stretch(notes, factor))} disabled={!(factor > 0)}>Apply</button>
+                        <button onClick={() => onApply('Time-stretch', notes => stretch(notes, 0.5))}>Half</button>
+                        <button onClick={() => onApply('Time-stretch', notes => stretch(notes, 2))}>Double</button>
+                    </div>
+                    <div style={row}>
+                        Humanize ±
+                        {number(timing, setTiming, { min: 0 })}
+                        ticks ±
+                        {number(velocity, setVelocity, { min: 0, max: 64 })}
+                        vel, seed
+                        {number(seed, setSeed)}
+                        <button onClick={() => {
+                            onApply('Humanize', notes => humanize(notes, { timing, velocity, seed }))
+                            // A fresh seed for the next pass, so repeating doesn't re-apply the same offsets
+                            setSeed(seed + 1)
+                        }}>
+                            Apply
+                        </button>
+                    </div>
+                    <div style={row}>
+                        Strum
+                        {number(strumTicks, setStrumTicks, { min: 0 })}
+                        ticks
+                        <select value={strumDirection} onChange={(e) => setStrumDirection(e.target.value as 'up' | 'down')}>
+                            <option value="up">Up</option>
+                            <option value="down">Down</option>
+                        </select>
+                        <button onClick={() => onApply('Strum', notes => strum(notes, strumTicks, strumDirection))}>Apply</button>
+                    </div>
+                </div>
+            )}
+        </span>
+    )
+}
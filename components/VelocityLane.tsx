@@ -0,0 +1,219 @@
+'use client'
+import React, { useEffect, useRef, useState } from 'react'
+import { Note } from '../lib/notes'
+
+
+type VelocityLaneProps = {
+    notes: Note[]
+    selection: Set<string>
+    width: number
+    height: number
+    gutter: number // width of the piano keys column, so stems line up with the grid
+    pixelsPerTick: number
+    scrollTick: number // first tick visible at the left edge of the grid
+    // Called with the new versions of every note whose velocity changed;
+    // calls sharing a history key belong to one gesture and undo together
+    onChange: (updated: Note[], label: string, historyKey: string) => void
+}
+
+const stemHitWidth = 6 // px either side of a stem that grabs it
+
+export default function VelocityLane({ notes, selection, width, height, gutter, pixelsPerTick, scrollTick, onChange }: VelocityLaneProps) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null)
+    const dragRef = useRef<{
+        mode: 'stem' | 'line';
+        noteId: string | null;
+        startX: number;
+        startY: number;
+        historyKey: string;
+    } | null>(null)
+    const [line, setLine] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null)
+
+    const padding = 4
+    const velFromY = (y: number) => Math.max(1, Math.min(127, Math.round((1 - (y - padding) / (height - padding * 2)) * 127)))
+    const yFromVel = (vel: number) => padding + (1 - vel / 127) * (height - padding * 2)
+    const xFromTick = (tick: number) => gutter + (tick - scrollTick) * pixelsPerTick
+
+    // Setup canvas size for high-DPI displays
+    useEffect(() => {
+        const cvs = canvasRef.current
+        if (!cvs) return
+        const dpr = window.devicePixelRatio || 1
+        cvs.width = width * dpr
+        cvs.height = height * dpr
+        cvs.getContext('2d')?.scale(dpr, dpr)
+        cvs.style.width = width + 'px'
+        cvs.style.height = height + 'px'
+    }, [width, height])
+
+    // draw lane
+    useEffect(() => {
+        const cvs = canvasRef.current
+        if (!cvs) return
+        const ctx = cvs.getContext('2d')!
+
+        ctx.clearRect(0, 0, width, height)
+        ctx.fillStyle = '#2d3142'
+        ctx.fillRect(0, 0, gutter, height)
+        ctx.fillStyle = '#3c4043'
+        ctx.fillRect(gutter, 0, width - gutter, height)
+
+        // Label and guide lines at 25/50/75/100%
+        ctx.fillStyle = '#9ba3af'
+        ctx.font = '10px Arial, sans-serif'
+        ctx.textAlign = 'right'
+        ctx.fillText('Velocity', gutter - 8, height / 2 + 3)
+        ctx.strokeStyle = '#4a5058'
+        ctx.lineWidth = 0.5
+        for (let i = 1; i <= 4; i++) {
+            const y = yFromVel((127 * i) / 4)
+            ctx.beginPath()
+            ctx.moveTo(gutter, y)
+            ctx.lineTo(width, y)
+            ctx.stroke()
+        }
+
+        // Unselected stems first so selected ones stay on top
+        const ordered = [...notes].sort((a, b) => Number(selection.has(a.id)) - Number(selection.has(b.id)))
+        ordered.forEach(note => {
+            const x = xFromTick(note.tick)
+            if (x < gutter || x > width) return
+            const y = yFromVel(note.vel)
+            const color = selection.has(note.id) ? '#d4627a' : '#7fb069'
+            ctx.strokeStyle = color
+            ctx.lineWidth = 2
+            ctx.beginPath()
+            ctx.moveTo(x + 1, height)
+            ctx.lineTo(x + 1, y)
+            ctx.stroke()
+            ctx.fillStyle = color
+            ctx.beginPath()
+            ctx.arc(x + 1, y, 3, 0, Math.PI * 2)
+            ctx.fill()
+        })
+
+        if (line) {
+            ctx.strokeStyle = '#ffffff'
+            ctx.lineWidth = 1
+            ctx.setLineDash([4, 3])
+            ctx.beginPath()
+            ctx.moveTo(line.x1, line.y1)
+            ctx.lineTo(line.x2, line.y2)
+            ctx.stroke()
+            ctx.setLineDash([])
+        }
+    }, [notes, selection, width, height, gutter, pixelsPerTick, scrollTick, line])
+
+    // Notes a gesture may touch: the selection if there is one, else everything
+    const targets = () => selection.size ? notes.filter(note => selection.has(note.id)) : notes
+
+    const stemAt = (x: number) => {
+        let best: Note | null = null
+        let bestDist = stemHitWidth
+        targets().forEach(note => {
+            const dist = Math.abs(xFromTick(note.tick) - x)
+            if (dist <= bestDist) {
+                best = note
+                bestDist = dist
+            }
+        })
+        return best as Note | null
+    }
+
+    const position = (e: { clientX: number; clientY: number }) => {
+        const rect = canvasRef.current!.getBoundingClientRect()
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+    }
+
+    const handleMouseDown = (e: React.MouseEvent) => {
+        if (e.button !== 0) return
+        const { x, y } = position(e)
+        if (x < gutter) return
+        const stem = stemAt(x)
+        const historyKey = `velocity_${Date.now()}`
+        if (stem) {
+            // Drag a single stem
+            dragRef.current = { mode: 'stem', noteId: stem.id, startX: x, startY: y, historyKey }
+            onChange([{ ...stem, vel: velFromY(y) }], 'Change velocity', historyKey)
+        } else {
+            // Draw a line; notes under it take its height
+            dragRef.current = { mode: 'line', noteId: null, startX: x, startY: y, historyKey }
+            setLine({ x1: x, y1: y, x2: x, y2: y })
+        }
+    }
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        const drag = dragRef.current
+        if (!drag) return
+        const { x, y } = position(e)
+
+        if (drag.mode === 'stem') {
+            const note = notes.find(n => n.id === drag.noteId)
+            const vel = velFromY(y)
+            if (note && note.vel !== vel) onChange([{ ...note, vel }], 'Change velocity', drag.historyKey)
+            return
+        }
+
+        setLine({ x1: drag.startX, y1: drag.startY, x2: x, y2: y })
+        const left = Math.min(drag.startX, x)
+        const right = Math.max(drag.startX, x)
+        const updated = targets()
+            .filter(note => {
+                const noteX = xFromTick(note.tick)
+                return noteX >= left && noteX <= right
+            })
+            .map(note => {
+                // Interpolate along the line at the stem's x
+                const noteX = xFromTick(note.tick)
+                const t = right === left ? 1 : (noteX - drag.startX) / (x - drag.startX)
+                return { ...note, vel: velFromY(drag.startY + (y - drag.startY) * t) }
+            })
+            .filter(note => notes.find(n => n.id === note.id)?.vel !== note.vel)
+        if (updated.length) onChange(updated, 'Draw velocity', drag.historyKey)
+    }
+
+    const handleMouseUp = () => {
+        dragRef.current = null
+        setLine(null)
+    }
+
+    // Wheel nudges the selected notes; registered natively so it can preventDefault
+    const wheelRef = useRef<(e: WheelEvent) => void>(() => {})
+    wheelRef.current = (e: WheelEvent) => {
+        if (selection.size === 0) return
+        e.preventDefault()
+        const step = (e.shiftKey ? 1 : 4) * -Math.sign(e.deltaY)
+        const updated = notes
+            .filter(note => selection.has(note.id))
+            .map(note => ({ ...note, vel: Math.max(1, Math.min(127, note.vel + step)) }))
+        // Consecutive wheel ticks within a short burst undo as one step
+        onChange(updated, 'Change velocity', `velocity_wheel_${Math.floor(Date.now() / 1000)}`)
+    }
+    useEffect(() => {
+        const cvs = canvasRef.current
+        if (!cvs) return
+        const handleWheel = (e: WheelEvent) => wheelRef.current(e)
+        cvs.addEventListener('wheel', handleWheel, { passive: false })
+        return () => cvs.removeEventListener('wheel', handleWheel)
+    }, [])
+
+    return (
+        <canvas
+            ref={canvasRef}
+            width={width}
+            height={height}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+            style={{
+                border: '1px solid #5a6068',
+                borderTop: 'none',
+                borderRadius: 2,
+                cursor: 'ns-resize',
+                backgroundColor: '#3c4043',
+                display: 'block'
+            }}
+        />
+    )
+}
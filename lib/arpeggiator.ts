@@ -0,0 +1,110 @@
+import { Note, newNoteId, noteSpan } from "./notes";
+import { Random, createRandom } from "./random";
+
+// Arpeggiator shared by the "render to notes" command and live playing:
+// held pitches become a repeating sequence stepped at a fixed rate.
+
+export type ArpMode = "up" | "down" | "up-down" | "random" | "as-played";
+
+export const arpModes: { id: ArpMode; label: string }[] = [
+  { id: "up", label: "Up" },
+  { id: "down", label: "Down" },
+  { id: "up-down", label: "Up-down" },
+  { id: "random", label: "Random" },
+  { id: "as-played", label: "As played" },
+];
+
+export type ArpSettings = {
+  mode: ArpMode;
+  rate: string; // snap id from lib/grid, e.g. "1/16"
+  gate: number; // note length as a fraction of a step; above 1 overlaps
+  octaves: number; // 1 plays the held notes as they are, 2 adds them an octave up, ...
+  accents: number[]; // velocity in percent per step, repeating
+  seed: number; // for random mode
+};
+
+export function defaultArpSettings(): ArpSettings {
+  return { mode: "up", rate: "1/16", gate: 0.5, octaves: 1, accents: [100, 70, 85, 70], seed: 1 };
+}
+
+// One cycle of the pattern for pitches given in the order they were
+// played. Random mode draws from the ascending pool instead of cycling.
+// Pitches above the piano's top note (108) are left out, so the cycle can
+// be empty.
+export function arpSequence(pitches: number[], mode: ArpMode, octaves: number): number[] {
+  const played = mode === "as-played" ? pitches : Array.from(new Set(pitches)).sort((a, b) => a - b);
+  const pool: number[] = [];
+  for (let octave = 0; octave < Math.max(1, octaves); octave++) {
+    played.forEach((midi) => {
+      if (midi + octave * 12 <= 108) pool.push(midi + octave * 12);
+    });
+  }
+  if (mode === "down") return pool.reverse();
+  // Turn around without playing the top and bottom notes twice
+  if (mode === "up-down") return [...pool, ...pool.slice(1, -1).reverse()];
+  return pool;
+}
+
+// The pitch for a step, or null when the sequence is empty
+export function arpPitch(sequence: number[], mode: ArpMode, step: number, random: Random): number | null {
+  if (sequence.length === 0) return null;
+  if (mode === "random") return sequence[Math.floor(random() * sequence.length)];
+  return sequence[step % sequence.length];
+}
+
+export function accentVelocity(vel: number, accents: number[], step: number) {
+  const accent = accents.length ? accents[step % accents.length] : 100;
+  return Math.max(1, Math.min(127, Math.round((vel * accent) / 100)));
+}
+
+// "100 60 80 60" (spaces or commas) to [100, 60, 80, 60]; throws on
+// anything that isn't a percentage so the editor can show the problem.
+export function parseAccentPattern(text: string): number[] {
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+  if (parts.length === 0) throw new Error("Enter at least one accent, e.g. 100 70");
+  return parts.map((part) => {
+    const value = Number(part);
+    if (!isFinite(value) || value < 0 || value > 200) throw new Error(`"${part}" is not a percentage from 0 to 200`);
+    return value;
+  });
+}
+
+// Replaces chords with arpeggios over the time they are held. Notes that
+// overlap count as one chord; the pattern restarts whenever the set of
+// held notes changes, and nothing plays where nothing is held.
+export function renderArpeggio(notes: Note[], settings: ArpSettings, rateTicks: number): Note[] {
+  if (notes.length === 0 || rateTicks <= 0) return [];
+  const random = createRandom(settings.seed);
+  const ordered = notes
+    .map((note, i) => ({ note, i }))
+    .sort((a, b) => a.note.tick - b.note.tick || a.i - b.i)
+    .map(({ note }) => note);
+  const { start, end } = noteSpan(notes);
+  const length = Math.max(1, Math.round(rateTicks * settings.gate));
+
+  const result: Note[] = [];
+  let chord = "";
+  let step = 0;
+  for (let tick = start; tick < end; tick += rateTicks) {
+    const at = Math.round(tick);
+    const held = ordered.filter((note) => note.tick <= at && at < note.tick + note.length);
+    const key = held.map((note) => note.id).join(",");
+    if (key !== chord) {
+      chord = key;
+      step = 0;
+    }
+    if (held.length === 0) continue;
+    const sequence = arpSequence(held.map((note) => note.midi), settings.mode, settings.octaves);
+    const midi = arpPitch(sequence, settings.mode, step, random);
+    if (midi === null) continue;
+    result.push({
+      id: newNoteId(),
+      tick: at,
+      length,
+      midi,
+      vel: accentVelocity(Math.max(...held.map((note) => note.vel)), settings.accents, step),
+    });
+    step++;
+  }
+  return result;
+}
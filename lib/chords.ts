@@ -0,0 +1,98 @@
+import { Note } from "./notes";
+import { pitchClassNames } from "./scales";
+
+// Chord types as semitones above the root. `symbol` is appended to the
+// root name, so the major triad's is empty ("C", "Cmaj7", "Cm7b5").
+export type ChordType = { id: string; name: string; symbol: string; intervals: number[] };
+
+export const chordTypes: ChordType[] = [
+  { id: "maj", name: "Major", symbol: "", intervals: [0, 4, 7] },
+  { id: "min", name: "Minor", symbol: "m", intervals: [0, 3, 7] },
+  { id: "dim", name: "Diminished", symbol: "dim", intervals: [0, 3, 6] },
+  { id: "aug", name: "Augmented", symbol: "aug", intervals: [0, 4, 8] },
+  { id: "sus2", name: "Sus2", symbol: "sus2", intervals: [0, 2, 7] },
+  { id: "sus4", name: "Sus4", symbol: "sus4", intervals: [0, 5, 7] },
+  { id: "5", name: "Power chord", symbol: "5", intervals: [0, 7] },
+  { id: "6", name: "Major 6th", symbol: "6", intervals: [0, 4, 7, 9] },
+  { id: "m6", name: "Minor 6th", symbol: "m6", intervals: [0, 3, 7, 9] },
+  { id: "maj7", name: "Major 7th", symbol: "maj7", intervals: [0, 4, 7, 11] },
+  { id: "7", name: "Dominant 7th", symbol: "7", intervals: [0, 4, 7, 10] },
+  { id: "m7", name: "Minor 7th", symbol: "m7", intervals: [0, 3, 7, 10] },
+  { id: "mMaj7", name: "Minor major 7th", symbol: "mMaj7", intervals: [0, 3, 7, 11] },
+  { id: "m7b5", name: "Half-diminished", symbol: "m7b5", intervals: [0, 3, 6, 10] },
+  { id: "dim7", name: "Diminished 7th", symbol: "dim7", intervals: [0, 3, 6, 9] },
+  { id: "7sus4", name: "7th sus4", symbol: "7sus4", intervals: [0, 5, 7, 10] },
+  { id: "add9", name: "Add 9", symbol: "add9", intervals: [0, 4, 7, 14] },
+  { id: "madd9", name: "Minor add 9", symbol: "madd9", intervals: [0, 3, 7, 14] },
+  { id: "9", name: "Dominant 9th", symbol: "9", intervals: [0, 4, 7, 10, 14] },
+  { id: "maj9", name: "Major 9th", symbol: "maj9", intervals: [0, 4, 7, 11, 14] },
+  { id: "m9", name: "Minor 9th", symbol: "m9", intervals: [0, 3, 7, 10, 14] },
+];
+
+export type ChordVoicing = "close" | "drop2" | "open";
+
+export type ChordShape = {
+  type: string; // id in `chordTypes`
+  inversion: number; // how many of the lowest notes move up an octave
+  voicing: ChordVoicing;
+};
+
+// Pitches of a chord built on `root`, lowest first.
+export function chordPitches(root: number, shape: ChordShape) {
+  const type = chordTypes.find((t) => t.id === shape.type) ?? chordTypes[0];
+  const pitches = type.intervals.map((interval) => root + interval);
+  const inversion = Math.max(0, Math.min(pitches.length - 1, shape.inversion));
+  for (let i = 0; i < inversion; i++) pitches.push(pitches.shift()! + 12);
+
+  if (shape.voicing === "drop2" && pitches.length >= 3) {
+    // second note from the top drops an octave
+    const [dropped] = pitches.splice(pitches.length - 2, 1);
+    pitches.unshift(dropped - 12);
+  } else if (shape.voicing === "open" && pitches.length >= 3) {
+    // every other note above the bass moves up an octave
+    for (let i = 1; i < pitches.length; i += 2) pitches[i] += 12;
+    pitches.sort((a, b) => a - b);
+  }
+  return pitches;
+}
+
+// Names the chord formed by a set of pitches, e.g. "Cmaj7/E", or null when
+// the pitch classes don't match a known chord exactly. Root-position
+// readings win over inversions, then earlier (simpler) chord types.
+export function detectChord(pitches: number[]) {
+  const classes = Array.from(new Set(pitches.map((p) => ((p % 12) + 12) % 12)));
+  if (classes.length < 2) return null;
+  const bass = ((Math.min(...pitches) % 12) + 12) % 12;
+
+  let best: { root: number; type: ChordType; score: number } | null = null;
+  for (const root of classes) {
+    chordTypes.forEach((type, order) => {
+      const chordClasses = new Set(type.intervals.map((i) => (root + i) % 12));
+      if (chordClasses.size !== classes.length) return;
+      if (!classes.every((pc) => chordClasses.has(pc))) return;
+      const score = (root === bass ? 0 : 1000) + order;
+      if (!best || score < best.score) best = { root, type, score };
+    });
+  }
+  if (!best) return null;
+  const { root, type } = best as { root: number; type: ChordType };
+  const name = pitchClassNames[root] + type.symbol;
+  return root === bass ? name : `${name}/${pitchClassNames[bass]}`;
+}
+
+export type ChordLabel = { start: number; end: number; name: string };
+
+// Detects a chord in each span (beats or bars) from the notes sounding in
+// it; neighbouring spans with the same chord merge into one label.
+export function chordLabels(notes: Note[], spans: { start: number; end: number }[]) {
+  const labels: ChordLabel[] = [];
+  spans.forEach(({ start, end }) => {
+    const sounding = notes.filter((note) => note.tick < end && note.tick + note.length > start);
+    const name = detectChord(sounding.map((note) => note.midi));
+    if (!name) return;
+    const last = labels[labels.length - 1];
+    if (last && last.name === name && last.end === start) last.end = end;
+    else labels.push({ start, end, name });
+  });
+  return labels;
+}
@@ -0,0 +1,74 @@
+import { Note, newNoteId, noteSpan } from "./notes";
+
+// Clipboard payload shared between piano-roll tabs through the system
+// clipboard. Ticks are stored relative to the first note of the clip and
+// at CLIP_PPQ so a future change of the editor resolution stays compatible.
+export const CLIP_TYPE = "piano-roll-clip";
+export const CLIP_VERSION = 1;
+export const CLIP_PPQ = 480;
+
+export type ClipNote = Omit<Note, "id">;
+
+export type Clip = {
+  type: typeof CLIP_TYPE;
+  version: number;
+  ppq: number;
+  notes: ClipNote[];
+};
+
+export function createClip(notes: Note[], ppq = CLIP_PPQ): Clip {
+  const { start } = noteSpan(notes);
+  const scale = CLIP_PPQ / ppq;
+  return {
+    type: CLIP_TYPE,
+    version: CLIP_VERSION,
+    ppq: CLIP_PPQ,
+    notes: notes.map((note) => ({
+      tick: Math.round((note.tick - start) * scale),
+      length: Math.round(note.length * scale),
+      midi: note.midi,
+      vel: note.vel,
+    })),
+  };
+}
+
+export function serializeClip(clip: Clip) {
+  return JSON.stringify(clip);
+}
+
+// Returns null for anything that is not a clip we can read, so pasting
+// arbitrary text from another app is a no-op rather than an error.
+export function parseClip(text: string): Clip | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object") return null;
+  const clip = data as Partial<Clip>;
+  if (clip.type !== CLIP_TYPE || typeof clip.version !== "number") return null;
+  if (clip.version > CLIP_VERSION) return null;
+  if (!Array.isArray(clip.notes)) return null;
+  const ppq = typeof clip.ppq === "number" && clip.ppq > 0 ? clip.ppq : CLIP_PPQ;
+
+  const isNum = (v: unknown): v is number => typeof v === "number" && isFinite(v);
+  const notes = clip.notes.filter(
+    (n) =>
+      n && isNum(n.tick) && isNum(n.length) && isNum(n.midi) && isNum(n.vel)
+  );
+  if (notes.length === 0) return null;
+  return { type: CLIP_TYPE, version: clip.version, ppq, notes };
+}
+
+// Turns a clip back into notes with fresh ids, starting at `tick`.
+export function clipToNotes(clip: Clip, tick: number, ppq = CLIP_PPQ): Note[] {
+  const scale = ppq / clip.ppq;
+  return clip.notes.map((note) => ({
+    id: newNoteId(),
+    tick: tick + Math.round(note.tick * scale),
+    length: Math.max(1, Math.round(note.length * scale)),
+    midi: Math.max(0, Math.min(127, Math.round(note.midi))),
+    vel: Math.max(1, Math.min(127, Math.round(note.vel))),
+  }));
+}
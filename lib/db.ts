@@ -0,0 +1,63 @@
+// Minimal promise wrapper around one IndexedDB database with a few
+// key-value object stores. Every call opens (and caches) the connection
+// lazily, so nothing touches IndexedDB during server rendering.
+
+const DB_NAME = "piano-roll";
+const DB_VERSION = 2;
+export const STORES = ["autosave", "samples"] as const;
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.forEach((name) => {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // let a later call retry instead of caching the failure
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+function run<T>(store: StoreName, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest) {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = op(db.transaction(store, mode).objectStore(store));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+      })
+  );
+}
+
+export function dbGet<T>(store: StoreName, key: string) {
+  return run<T | undefined>(store, "readonly", (s) => s.get(key));
+}
+
+export function dbPut(store: StoreName, key: string, value: unknown) {
+  return run<IDBValidKey>(store, "readwrite", (s) => s.put(value, key));
+}
+
+export function dbDelete(store: StoreName, key: string) {
+  return run<undefined>(store, "readwrite", (s) => s.delete(key));
+}
+
+export function dbKeys(store: StoreName) {
+  return run<IDBValidKey[]>(store, "readonly", (s) => s.getAllKeys()).then((keys) =>
+    keys.map(String)
+  );
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { voiceStarts } from "./drums";
+
+describe("voiceStarts", () => {
+  it("keeps hits that arrive out of time order where they are", () => {
+    const at = voiceStarts();
+    const kick = {};
+    // beat 3 programmed before beat 1
+    expect(at(kick, 1)).toBe(1);
+    expect(at(kick, 0)).toBe(0);
+    expect(at(kick, 0.5)).toBe(0.5);
+  });
+
+  it("nudges a start that clashes with another on the same voice", () => {
+    const at = voiceStarts();
+    const kick = {};
+    expect(at(kick, 1)).toBe(1);
+    expect(at(kick, 1)).toBeCloseTo(1.001, 9);
+    expect(at(kick, 1)).toBeCloseTo(1.002, 9);
+    expect(at(kick, 0.9995)).toBeCloseTo(1.003, 9);
+  });
+
+  it("keeps voices apart", () => {
+    const at = voiceStarts();
+    expect(at({}, 1)).toBe(1);
+    expect(at({}, 1)).toBe(1);
+  });
+});
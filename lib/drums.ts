@@ -0,0 +1,128 @@
+import { Note } from "./notes";
+
+// General MIDI percussion: drum tracks hold notes like any other track,
+// but each pitch is a drum and the whole track lives on channel 10.
+
+export const DRUM_CHANNEL = 9; // channel 10, counted from 0
+
+// How the built-in kits voice each drum
+export type DrumSound =
+  | "kick"
+  | "snare"
+  | "clap"
+  | "rim"
+  | "tom"
+  | "closed-hat"
+  | "open-hat"
+  | "cymbal"
+  | "ride"
+  | "bell"
+  | "shaker";
+
+export type DrumDefinition = { midi: number; name: string; sound: DrumSound };
+
+export const gmDrums: DrumDefinition[] = [
+  { midi: 35, name: "Kick 2", sound: "kick" },
+  { midi: 36, name: "Kick", sound: "kick" },
+  { midi: 37, name: "Side Stick", sound: "rim" },
+  { midi: 38, name: "Snare", sound: "snare" },
+  { midi: 39, name: "Clap", sound: "clap" },
+  { midi: 40, name: "Snare 2", sound: "snare" },
+  { midi: 41, name: "Low Floor Tom", sound: "tom" },
+  { midi: 42, name: "Closed HH", sound: "closed-hat" },
+  { midi: 43, name: "High Floor Tom", sound: "tom" },
+  { midi: 44, name: "Pedal HH", sound: "closed-hat" },
+  { midi: 45, name: "Low Tom", sound: "tom" },
+  { midi: 46, name: "Open HH", sound: "open-hat" },
+  { midi: 47, name: "Low-Mid Tom", sound: "tom" },
+  { midi: 48, name: "Hi-Mid Tom", sound: "tom" },
+  { midi: 49, name: "Crash", sound: "cymbal" },
+  { midi: 50, name: "High Tom", sound: "tom" },
+  { midi: 51, name: "Ride", sound: "ride" },
+  { midi: 52, name: "China", sound: "cymbal" },
+  { midi: 53, name: "Ride Bell", sound: "bell" },
+  { midi: 54, name: "Tambourine", sound: "shaker" },
+  { midi: 55, name: "Splash", sound: "cymbal" },
+  { midi: 56, name: "Cowbell", sound: "bell" },
+  { midi: 57, name: "Crash 2", sound: "cymbal" },
+  { midi: 58, name: "Vibraslap", sound: "shaker" },
+  { midi: 59, name: "Ride 2", sound: "ride" },
+  { midi: 60, name: "Hi Bongo", sound: "tom" },
+  { midi: 61, name: "Low Bongo", sound: "tom" },
+  { midi: 62, name: "Mute Hi Conga", sound: "tom" },
+  { midi: 63, name: "Open Hi Conga", sound: "tom" },
+  { midi: 64, name: "Low Conga", sound: "tom" },
+  { midi: 65, name: "High Timbale", sound: "tom" },
+  { midi: 66, name: "Low Timbale", sound: "tom" },
+  { midi: 67, name: "High Agogo", sound: "bell" },
+  { midi: 68, name: "Low Agogo", sound: "bell" },
+  { midi: 69, name: "Cabasa", sound: "shaker" },
+  { midi: 70, name: "Maracas", sound: "shaker" },
+  { midi: 71, name: "Short Whistle", sound: "bell" },
+  { midi: 72, name: "Long Whistle", sound: "bell" },
+  { midi: 73, name: "Short Guiro", sound: "shaker" },
+  { midi: 74, name: "Long Guiro", sound: "shaker" },
+  { midi: 75, name: "Claves", sound: "rim" },
+  { midi: 76, name: "Hi Wood Block", sound: "rim" },
+  { midi: 77, name: "Low Wood Block", sound: "rim" },
+  { midi: 78, name: "Mute Cuica", sound: "tom" },
+  { midi: 79, name: "Open Cuica", sound: "tom" },
+  { midi: 80, name: "Mute Triangle", sound: "bell" },
+  { midi: 81, name: "Open Triangle", sound: "bell" },
+];
+
+// Rows a new drum track shows before anything is drawn
+export const defaultFavouriteDrums = [36, 38, 39, 42, 46, 45, 48, 50, 49, 51];
+
+// Instrument names that make a track a drum track, with their labels
+export const drumKitLabels: { [kit: string]: string } = {
+  drums: "Drum kit",
+  "electronic-drums": "Electronic kit",
+};
+
+export const drumKits = Object.keys(drumKitLabels);
+
+export const isDrumTrack = (track: { instrument: string }) => drumKits.includes(track.instrument);
+
+export function drumDefinition(midi: number) {
+  return gmDrums.find((drum) => drum.midi === midi);
+}
+
+export function drumName(midi: number) {
+  return drumDefinition(midi)?.name ?? `Note ${midi}`;
+}
+
+// Rows for a drum track, highest note at the top like the piano roll:
+// every GM drum, or only the ones in use plus the favourites.
+export function drumRows(notes: Note[], favourites: number[], all: boolean) {
+  const pitches = all
+    ? gmDrums.map((drum) => drum.midi)
+    : [...notes.map((note) => note.midi), ...favourites];
+  return Array.from(new Set(pitches)).sort((a, b) => b - a);
+}
+
+// Start times for monophonic drum voices, which can't start twice at the
+// same instant (two kicks on one step, or a snare's body tone on the tom
+// while a tom hits). A start is only nudged, just past the other one, when that voice
+// already starts within `gap` seconds of it; hits may come in any order.
+export function voiceStarts(gap = 0.001) {
+  const starts = new Map<object, number[]>();
+  return (voice: object, time: number) => {
+    const taken = starts.get(voice) ?? [];
+    let start = time;
+    for (;;) {
+      // the tolerance keeps a start exactly `gap` away from counting as a clash
+      const clash = taken.filter((t) => Math.abs(t - start) < gap - 1e-9);
+      if (!clash.length) break;
+      start = Math.max(...clash) + gap;
+    }
+    taken.push(start);
+    starts.set(voice, taken);
+    return start;
+  };
+}
+
+// Hits on a drum row that start inside a step, for the step sequencer
+export function stepHits(notes: Note[], midi: number, start: number, end: number) {
+  return notes.filter((note) => note.midi === midi && note.tick >= start && note.tick < end);
+}
@@ -0,0 +1,88 @@
+import { Note } from "./notes";
+
+// Snap values offered in the editor. `division` is the note value as a
+// fraction of a whole note (4 = quarter); triplets fit three in the space
+// of two, dotted values are one and a half times as long.
+export type SnapOption = {
+  id: string;
+  label: string;
+  division: number;
+  feel: "straight" | "triplet" | "dotted";
+};
+
+export const SNAP_OFF = "off";
+
+export const snapOptions: SnapOption[] = [
+  { id: "1/1", label: "1/1", division: 1, feel: "straight" },
+  { id: "1/2", label: "1/2", division: 2, feel: "straight" },
+  { id: "1/4", label: "1/4", division: 4, feel: "straight" },
+  { id: "1/8", label: "1/8", division: 8, feel: "straight" },
+  { id: "1/16", label: "1/16", division: 16, feel: "straight" },
+  { id: "1/32", label: "1/32", division: 32, feel: "straight" },
+  { id: "1/64", label: "1/64", division: 64, feel: "straight" },
+  { id: "1/4T", label: "1/4 triplet", division: 4, feel: "triplet" },
+  { id: "1/8T", label: "1/8 triplet", division: 8, feel: "triplet" },
+  { id: "1/16T", label: "1/16 triplet", division: 16, feel: "triplet" },
+  { id: "1/32T", label: "1/32 triplet", division: 32, feel: "triplet" },
+  { id: "1/2D", label: "1/2 dotted", division: 2, feel: "dotted" },
+  { id: "1/4D", label: "1/4 dotted", division: 4, feel: "dotted" },
+  { id: "1/8D", label: "1/8 dotted", division: 8, feel: "dotted" },
+  { id: "1/16D", label: "1/16 dotted", division: 16, feel: "dotted" },
+];
+
+// Grid size in ticks for a snap id, or 0 when snapping is off.
+export function snapTicks(id: string, ppq: number) {
+  const option = snapOptions.find((o) => o.id === id);
+  if (!option) return 0;
+  const ticks = (ppq * 4) / option.division;
+  if (option.feel === "triplet") return (ticks * 2) / 3;
+  if (option.feel === "dotted") return (ticks * 3) / 2;
+  return ticks;
+}
+
+// Snaps a tick down (for clicks, which should land in the cell under the
+// mouse) or to the nearest line (for drags). A grid of 0 leaves it alone.
+export function snapTick(tick: number, grid: number, mode: "floor" | "round" = "floor") {
+  if (grid <= 0) return Math.round(tick);
+  const cells = mode === "floor" ? Math.floor(tick / grid) : Math.round(tick / grid);
+  return Math.round(cells * grid);
+}
+
+export type QuantizeOptions = {
+  grid: number;
+  // 0-1: how far each note moves towards its grid line
+  strength: number;
+  // 0-100: delays every second grid line; 100% puts it on the triplet
+  // position (two thirds of the pair), a classic shuffle
+  swing: number;
+  // whether note ends are quantized too, or only starts (keeping lengths)
+  mode: "start" | "start-end";
+};
+
+// Target grid line for a tick, including swing.
+function quantizeTarget(tick: number, grid: number, swing: number) {
+  const index = Math.round(tick / grid);
+  const swingOffset = index % 2 === 1 ? (swing / 100) * (grid / 3) : 0;
+  return index * grid + swingOffset;
+}
+
+export function quantizeNotes(notes: Note[], options: QuantizeOptions): Note[] {
+  const { grid, swing } = options;
+  if (grid <= 0) return notes;
+  const strength = Math.max(0, Math.min(1, options.strength));
+
+  return notes.map((note) => {
+    const start = note.tick + (quantizeTarget(note.tick, grid, swing) - note.tick) * strength;
+    const tick = Math.max(0, Math.round(start));
+    if (options.mode === "start") return { ...note, tick };
+
+    const end = note.tick + note.length;
+    let targetEnd = quantizeTarget(end, grid, swing);
+    // never collapse a note to nothing: keep at least one grid cell
+    if (targetEnd <= quantizeTarget(note.tick, grid, swing)) {
+      targetEnd = quantizeTarget(note.tick, grid, swing) + grid;
+    }
+    const newEnd = Math.round(end + (targetEnd - end) * strength);
+    return { ...note, tick, length: Math.max(1, newEnd - tick) };
+  });
+}
@@ -0,0 +1,139 @@
+// Command history for editing a list of items with stable ids.
+//
+// Every edit is recorded as a single kind of command: the versions of the
+// items it replaced (`before`) and the versions it left behind (`after`).
+// Adds have an empty `before`, deletes an empty `after`, moves carry both.
+// That one shape is enough to undo, redo and merge any edit. State kept
+// outside the list (type S) can ride along as a plain before/after pair.
+
+export type Change<T, S = never> = {
+  label: string;
+  before: T[];
+  after: T[];
+  // consecutive changes sharing a merge key collapse into one undo step
+  mergeKey?: string;
+  // which collection the change applies to, when the caller edits several
+  // (e.g. the track a note edit was made on)
+  scope?: string;
+  // other state the edit replaced as a whole (e.g. the tempo map a MIDI
+  // import brings in); undo puts `before` back
+  state?: { before: S; after: S };
+};
+
+export type History<T, S = never> = {
+  undo: Change<T, S>[];
+  redo: Change<T, S>[];
+};
+
+export const HISTORY_LIMIT = 200;
+
+export function emptyHistory<T, S = never>(): History<T, S> {
+  return { undo: [], redo: [] };
+}
+
+export function isEmptyChange<T, S>(change: Change<T, S>) {
+  return change.before.length === 0 && change.after.length === 0 && !change.state;
+}
+
+export function invertChange<T, S>(change: Change<T, S>): Change<T, S> {
+  return {
+    label: change.label,
+    before: change.after,
+    after: change.before,
+    scope: change.scope,
+    ...(change.state ? { state: { before: change.state.after, after: change.state.before } } : {}),
+  };
+}
+
+// Applies a change, keeping the order of items that are replaced in place
+// and appending items that are new.
+export function applyChange<T extends { id: string }, S>(
+  items: T[],
+  change: Change<T, S>
+): T[] {
+  const removed = new Set(change.before.map((item) => item.id));
+  const added = new Map(change.after.map((item) => [item.id, item]));
+  const result: T[] = [];
+  items.forEach((item) => {
+    const replacement = added.get(item.id);
+    if (replacement) {
+      result.push(replacement);
+      added.delete(item.id);
+    } else if (!removed.has(item.id)) {
+      result.push(item);
+    }
+  });
+  added.forEach((item) => result.push(item));
+  return result;
+}
+
+// Composes `next` on top of `prev` so the result goes straight from the
+// state before `prev` to the state after `next`.
+export function mergeChanges<T extends { id: string }, S>(
+  prev: Change<T, S>,
+  next: Change<T, S>
+): Change<T, S> {
+  const state = prev.state || next.state
+    ? { before: (prev.state ?? next.state)!.before, after: (next.state ?? prev.state)!.after }
+    : undefined;
+  const prevAfter = new Set(prev.after.map((item) => item.id));
+  const nextAfter = new Set(next.after.map((item) => item.id));
+  const nextBefore = new Set(next.before.map((item) => item.id));
+  return {
+    label: prev.label,
+    mergeKey: prev.mergeKey,
+    scope: prev.scope,
+    before: [
+      ...prev.before,
+      // items `next` touched that were untouched by `prev`
+      ...next.before.filter((item) => !prevAfter.has(item.id)),
+    ],
+    after: [
+      ...prev.after.filter(
+        (item) => !nextBefore.has(item.id) && !nextAfter.has(item.id)
+      ),
+      ...next.after,
+    ],
+    ...(state ? { state } : {}),
+  };
+}
+
+export function pushChange<T extends { id: string }, S>(
+  history: History<T, S>,
+  change: Change<T, S>,
+  limit = HISTORY_LIMIT
+): History<T, S> {
+  const top = history.undo[history.undo.length - 1];
+  if (
+    top &&
+    change.mergeKey &&
+    top.mergeKey === change.mergeKey &&
+    top.scope === change.scope
+  ) {
+    return {
+      undo: [...history.undo.slice(0, -1), mergeChanges(top, change)],
+      redo: [],
+    };
+  }
+  return { undo: [...history.undo, change].slice(-limit), redo: [] };
+}
+
+// Moves the latest change to the redo stack and returns the change that
+// has to be applied to reverse it.
+export function undoChange<T, S>(history: History<T, S>) {
+  const change = history.undo[history.undo.length - 1];
+  if (!change) return null;
+  return {
+    history: { undo: history.undo.slice(0, -1), redo: [...history.redo, change] },
+    change: invertChange(change),
+  };
+}
+
+export function redoChange<T, S>(history: History<T, S>) {
+  const change = history.redo[history.redo.length - 1];
+  if (!change) return null;
+  return {
+    history: { undo: [...history.undo, change], redo: history.redo.slice(0, -1) },
+    change,
+  };
+}
@@ -0,0 +1,377 @@
+import * as Tone from "tone";
+import { DrumSound, drumDefinition, drumKits, voiceStarts } from "./drums";
+import { Effect, InstrumentPreset, SampleZone, defaultPresets, emptySampler } from "./presets";
+import { layerForVelocity, loadSample } from "./samples";
+
+// Builds playable instruments from preset data (and the synthesized drum
+// kits) on the current Tone context: the live one, or an offline one when
+// rendering. Nothing here touches React state.
+
+// What the editor needs from an instrument: Tone's polyphonic synths and
+// samplers fit, and so do the drum kits
+export type PlayableSynth = {
+  triggerAttack(note: string, time?: number, velocity?: number): unknown;
+  triggerRelease(note: string, time?: number): unknown;
+  triggerAttackRelease(note: string, duration: number | string, time?: number, velocity?: number): unknown;
+  dispose(): unknown;
+};
+
+// A freshly built instrument and a promise that settles once it can make
+// sound. `update` applies an edited preset in place, without cutting off
+// held notes, and returns false when the change needs a rebuild instead.
+export type BuiltInstrument = {
+  synth: PlayableSynth;
+  ready: Promise<unknown>;
+  update?: (preset: InstrumentPreset) => boolean;
+};
+
+// Sample loading as it happens: how many of an instrument's samples are
+// done so far, and each sample once it has loaded (error null) or failed
+export type LoadListeners = {
+  onProgress?: (loaded: number, total: number) => void;
+  onSample?: (zone: SampleZone, error: string | null) => void;
+};
+
+// Options for Tone's Synth, FMSynth and AMSynth from a preset
+function voiceOptions(preset: InstrumentPreset) {
+  const { modulation } = preset;
+  return {
+    oscillator: { type: preset.oscillator },
+    envelope: { ...preset.envelope },
+    ...(preset.voice === "synth"
+      ? {}
+      : {
+          harmonicity: modulation.harmonicity,
+          modulation: { type: modulation.type },
+          modulationEnvelope: { ...modulation.envelope },
+          ...(preset.voice === "fm" ? { modulationIndex: modulation.index } : {}),
+        }),
+  };
+}
+
+function createVoice(preset: InstrumentPreset): Tone.PolySynth<Tone.Synth | Tone.FMSynth | Tone.AMSynth> {
+  const options = voiceOptions(preset) as Record<string, unknown>;
+  if (preset.voice === "fm") return new Tone.PolySynth(Tone.FMSynth).set(options);
+  if (preset.voice === "am") return new Tone.PolySynth(Tone.AMSynth).set(options);
+  return new Tone.PolySynth(Tone.Synth).set(options);
+}
+
+function createEffect(effect: Effect): Tone.ToneAudioNode {
+  switch (effect.type) {
+    case "filter":
+      return new Tone.Filter({ type: effect.filter, frequency: effect.frequency, Q: effect.q, rolloff: -12 });
+    case "compressor":
+      return new Tone.Compressor({ threshold: effect.threshold, ratio: effect.ratio, attack: effect.attack, release: effect.release });
+    case "eq":
+      return new Tone.EQ3({ low: effect.low, mid: effect.mid, high: effect.high });
+    case "chorus":
+      return new Tone.Chorus({ frequency: effect.frequency, delayTime: effect.delayTime, depth: effect.depth, wet: effect.wet }).start();
+    case "delay":
+      return new Tone.FeedbackDelay({ delayTime: effect.delayTime, feedback: effect.feedback, wet: effect.wet });
+    case "reverb":
+      return new Tone.Reverb({ decay: effect.decay, wet: effect.wet });
+  }
+}
+
+// Moves an existing effect node to new settings of the same type
+function updateEffect(node: Tone.ToneAudioNode, effect: Effect) {
+  if (effect.type === "filter" && node instanceof Tone.Filter) {
+    node.type = effect.filter;
+    node.frequency.rampTo(effect.frequency, 0.02);
+    node.Q.value = effect.q;
+  } else if (effect.type === "compressor" && node instanceof Tone.Compressor) {
+    node.threshold.value = effect.threshold;
+    node.ratio.value = effect.ratio;
+    node.attack.value = effect.attack;
+    node.release.value = effect.release;
+  } else if (effect.type === "eq" && node instanceof Tone.EQ3) {
+    node.low.value = effect.low;
+    node.mid.value = effect.mid;
+    node.high.value = effect.high;
+  } else if (effect.type === "chorus" && node instanceof Tone.Chorus) {
+    node.frequency.value = effect.frequency;
+    node.delayTime = effect.delayTime;
+    node.depth = effect.depth;
+    node.wet.value = effect.wet;
+  } else if (effect.type === "delay" && node instanceof Tone.FeedbackDelay) {
+    node.delayTime.rampTo(effect.delayTime, 0.02);
+    node.feedback.value = effect.feedback;
+    node.wet.value = effect.wet;
+  } else if (effect.type === "reverb" && node instanceof Tone.Reverb) {
+    // A new decay regenerates the impulse response in the background
+    if (node.decay !== effect.decay) node.decay = effect.decay;
+    node.wet.value = effect.wet;
+  }
+}
+
+// A sampler voice: one Tone.Sampler per velocity layer, filled as its
+// audio comes out of IndexedDB. Notes on a layer without samples (or
+// before any have loaded) fall back to the nearest layer that has some.
+function createSamplerVoice(preset: InstrumentPreset, { onProgress, onSample }: LoadListeners) {
+  const { zones, layers } = preset.sampler ?? emptySampler();
+  const samplers = layers.map(() => new Tone.Sampler());
+  const loaded = layers.map(() => 0);
+  const bus = new Tone.Volume();
+  samplers.forEach((sampler) => sampler.connect(bus));
+  const context = Tone.getContext(); // the offline one when rendering
+
+  const set = (next: InstrumentPreset) => {
+    samplers.forEach((sampler) => {
+      sampler.attack = next.envelope.attack;
+      sampler.release = next.envelope.release;
+    });
+    bus.volume.value = next.volume;
+  };
+  set(preset);
+
+  let done = 0;
+  let disposed = false; // the preset can change again before its samples finish loading
+  onProgress?.(0, zones.length);
+  const ready = Promise.all(
+    zones.map(async (zone) => {
+      try {
+        const buffer = await context.decodeAudioData(await loadSample(zone.sample));
+        if (disposed) return;
+        samplers[zone.layer].add(zone.root as Tone.Unit.MidiNote, buffer);
+        loaded[zone.layer]++;
+        onSample?.(zone, null);
+      } catch (error) {
+        // a missing or undecodable file leaves a gap rather than silencing the instrument
+        if (!disposed) onSample?.(zone, (error as Error)?.message ?? String(error));
+      }
+      onProgress?.(++done, zones.length);
+    })
+  );
+
+  const pick = (velocity = 1) => {
+    const wanted = layerForVelocity(layers, Math.round(velocity * 127));
+    const usable = layers.map((_, i) => i).filter((i) => loaded[i] > 0);
+    if (!usable.length) return null;
+    return samplers[usable.reduce((best, i) => (Math.abs(i - wanted) < Math.abs(best - wanted) ? i : best))];
+  };
+  // Releases go to the layer that started the note
+  const held = new Map<string, Tone.Sampler>();
+
+  const synth: PlayableSynth = {
+    triggerAttack: (note, time, velocity) => {
+      const sampler = pick(velocity);
+      if (!sampler) return;
+      held.get(note)?.triggerRelease(note, time);
+      held.set(note, sampler);
+      sampler.triggerAttack(note, time, velocity);
+    },
+    triggerRelease: (note, time) => {
+      held.get(note)?.triggerRelease(note, time);
+      held.delete(note);
+    },
+    triggerAttackRelease: (note, duration, time, velocity) => pick(velocity)?.triggerAttackRelease(note, duration, time, velocity),
+    dispose: () => {
+      disposed = true;
+      samplers.forEach((sampler) => sampler.dispose());
+      bus.dispose();
+    },
+  };
+  return { synth, output: bus, ready, set };
+}
+
+function createSynthVoice(preset: InstrumentPreset) {
+  const voice = createVoice(preset);
+  voice.volume.value = preset.volume;
+  return {
+    synth: voice,
+    output: voice,
+    ready: Promise.resolve(),
+    set: (next: InstrumentPreset) => {
+      voice.set(voiceOptions(next) as Record<string, unknown>);
+      voice.volume.value = next.volume;
+    },
+  };
+}
+
+// The voice runs through the effects in order, then into `output`
+export function buildPreset(preset: InstrumentPreset, output: Tone.InputNode, listeners: LoadListeners = {}): BuiltInstrument {
+  const voice = preset.voice === "sampler" ? createSamplerVoice(preset, listeners) : createSynthVoice(preset);
+  const effects = preset.effects.map(createEffect);
+  voice.output.chain(...effects, output);
+  // Anything that changes the nodes, or which samples are loaded where, needs a rebuild
+  const structure = (p: InstrumentPreset) =>
+    [p.voice, ...p.effects.map((effect) => effect.type), p.voice === "sampler" ? JSON.stringify(p.sampler) : ""].join(",");
+  const built = structure(preset);
+
+  return {
+    synth: {
+      triggerAttack: (note, time, velocity) => voice.synth.triggerAttack(note, time, velocity),
+      triggerRelease: (note, time) => voice.synth.triggerRelease(note, time),
+      triggerAttackRelease: (note, duration, time, velocity) => voice.synth.triggerAttackRelease(note, duration, time, velocity),
+      // Tone disposes a synth on its own; the effects chain goes with it here
+      dispose: () => {
+        voice.synth.dispose();
+        effects.forEach((effect) => effect.dispose());
+      },
+    },
+    ready: Promise.all([
+      voice.ready,
+      ...effects.filter((effect): effect is Tone.Reverb => effect instanceof Tone.Reverb).map((reverb) => reverb.ready),
+    ]),
+    update: (next) => {
+      if (structure(next) !== built) return false;
+      voice.set(next);
+      effects.forEach((node, i) => updateEffect(node, next.effects[i]));
+      return true;
+    },
+  };
+}
+
+// How a synthesized kit voices its drums
+type DrumKitTuning = {
+  kickDecay: number;
+  kickOctaves: number;
+  snareDecay: number;
+  noise: "white" | "pink" | "brown";
+  hatResonance: number;
+  cymbalDecay: number;
+};
+
+const drumKitTunings: { [kit: string]: DrumKitTuning } = {
+  drums: { kickDecay: 0.4, kickOctaves: 6, snareDecay: 0.18, noise: "white", hatResonance: 4000, cymbalDecay: 1.4 },
+  "electronic-drums": { kickDecay: 0.9, kickOctaves: 4, snareDecay: 0.25, noise: "pink", hatResonance: 6000, cymbalDecay: 0.8 },
+};
+
+// A drum kit from Tone's membrane, noise and metal synths. Hits are
+// one-shots, so note lengths don't matter, and a closed hat chokes a
+// ringing open one as on a real kit.
+export function buildDrumKit(output: Tone.InputNode, tuning: DrumKitTuning): BuiltInstrument {
+  const kick = new Tone.MembraneSynth({
+    pitchDecay: 0.05,
+    octaves: tuning.kickOctaves,
+    envelope: { attack: 0.001, decay: tuning.kickDecay, sustain: 0, release: 0.1 },
+  }).connect(output);
+  const tom = new Tone.MembraneSynth({
+    pitchDecay: 0.08,
+    octaves: 2,
+    envelope: { attack: 0.001, decay: 0.5, sustain: 0, release: 0.2 },
+  }).connect(output);
+  const rim = new Tone.MembraneSynth({
+    pitchDecay: 0.01,
+    octaves: 1,
+    envelope: { attack: 0.001, decay: 0.05, sustain: 0, release: 0.02 },
+  }).connect(output);
+  const snare = new Tone.NoiseSynth({
+    noise: { type: tuning.noise },
+    envelope: { attack: 0.001, decay: tuning.snareDecay, sustain: 0, release: 0.05 },
+  }).connect(output);
+  const clap = new Tone.NoiseSynth({
+    noise: { type: "pink" },
+    envelope: { attack: 0.005, decay: 0.12, sustain: 0, release: 0.05 },
+  }).connect(output);
+  const shaker = new Tone.NoiseSynth({
+    noise: { type: "white" },
+    envelope: { attack: 0.005, decay: 0.06, sustain: 0, release: 0.02 },
+  }).connect(output);
+  // Every decay has its own voice: hits are scheduled ahead of time, so
+  // changing a shared voice's envelope would reach hits already queued
+  const hat = (decay: number) =>
+    new Tone.MetalSynth({
+      harmonicity: 5.1,
+      modulationIndex: 32,
+      octaves: 1.5,
+      resonance: tuning.hatResonance,
+      envelope: { attack: 0.001, decay, release: 0.01 },
+    }).connect(output);
+  const closedHatDecay = 0.05;
+  const openHatDecay = 0.5;
+  const closedHat = hat(closedHatDecay);
+  const openHat = hat(openHatDecay);
+  const cymbal = (decay: number) =>
+    new Tone.MetalSynth({
+      harmonicity: 5.1,
+      modulationIndex: 40,
+      octaves: 1.5,
+      resonance: 5000,
+      envelope: { attack: 0.001, decay, release: 0.3 },
+    }).connect(output);
+  const crash = cymbal(tuning.cymbalDecay);
+  const ride = cymbal(tuning.cymbalDecay / 2);
+  const bell = new Tone.MetalSynth({
+    harmonicity: 3.1,
+    modulationIndex: 12,
+    octaves: 0.5,
+    resonance: 3000,
+    envelope: { attack: 0.001, decay: 0.3, release: 0.1 },
+  }).connect(output);
+  [closedHat, openHat].forEach((voice) => (voice.volume.value = -12));
+  [crash, ride, bell].forEach((voice) => (voice.volume.value = -14));
+
+  const at = voiceStarts();
+
+  const hit = (note: string, time: number | undefined, velocity = 1) => {
+    const midi = Tone.Frequency(note).toMidi();
+    const sound: DrumSound = drumDefinition(midi)?.sound ?? "tom";
+    const when = time ?? Tone.now();
+    switch (sound) {
+      case "kick":
+        kick.triggerAttackRelease("C1", 0.1, at(kick, when), velocity);
+        break;
+      case "snare":
+        snare.triggerAttackRelease(0.1, at(snare, when), velocity);
+        tom.triggerAttackRelease("G2", 0.05, at(tom, when), velocity * 0.5);
+        break;
+      case "clap":
+        clap.triggerAttackRelease(0.05, at(clap, when), velocity);
+        break;
+      case "rim":
+        rim.triggerAttackRelease(Tone.Frequency(midi + 36, "midi").toFrequency(), 0.03, at(rim, when), velocity);
+        break;
+      case "tom":
+        // Higher GM numbers are higher drums
+        tom.triggerAttackRelease(Tone.Frequency(midi - 5, "midi").toFrequency(), 0.1, at(tom, when), velocity);
+        break;
+      case "closed-hat": {
+        const start = at(closedHat, when);
+        openHat.triggerRelease(start);
+        closedHat.triggerAttackRelease(300, closedHatDecay, start, velocity);
+        break;
+      }
+      // Metal voices are held for their decay; the release then only rounds off the tail
+      case "open-hat":
+        openHat.triggerAttackRelease(300, openHatDecay, at(openHat, when), velocity);
+        break;
+      case "cymbal":
+        crash.triggerAttackRelease(300, tuning.cymbalDecay, at(crash, when), velocity);
+        break;
+      case "ride":
+        ride.triggerAttackRelease(500, tuning.cymbalDecay / 2, at(ride, when), velocity);
+        break;
+      case "bell":
+        bell.triggerAttackRelease(Tone.Frequency(midi + 12, "midi").toFrequency(), 0.02, at(bell, when), velocity);
+        break;
+      case "shaker":
+        shaker.triggerAttackRelease(0.03, at(shaker, when), velocity);
+        break;
+    }
+  };
+
+  const voices = [kick, tom, rim, snare, clap, shaker, closedHat, openHat, crash, ride, bell];
+  return {
+    synth: {
+      triggerAttack: (note, time, velocity) => hit(note, time, velocity),
+      triggerRelease: () => {},
+      triggerAttackRelease: (note, _duration, time, velocity) => hit(note, time, velocity),
+      dispose: () => voices.forEach((voice) => voice.dispose()),
+    },
+    ready: Promise.resolve(),
+  };
+}
+
+// The instrument a track's `instrument` names: a drum kit, or one of the
+// project's presets (falling back to the first, so a missing preset still plays)
+export function buildInstrument(
+  instrument: string,
+  presets: InstrumentPreset[],
+  output: Tone.InputNode,
+  listeners: LoadListeners = {}
+): BuiltInstrument {
+  if (drumKits.includes(instrument)) return buildDrumKit(output, drumKitTunings[instrument]);
+  const preset = presets.find((p) => p.id === instrument) ?? presets[0] ?? defaultPresets()[0];
+  return buildPreset(preset, output, listeners);
+}
@@ -0,0 +1,99 @@
+import { Note } from "./notes";
+import { Random, createRandom, weightedPick } from "./random";
+import { KeySignature, hasKey, snapToScale } from "./scales";
+
+// Offline melody generator: an n-gram model over the intervals and
+// rhythms of the user's own notes. It reads the melody as the highest
+// note at each onset, so chords under a tune don't swamp the statistics.
+
+export type MarkovOptions = {
+  ppq: number;
+  key: KeySignature;
+  start: number; // tick range to fill
+  end: number;
+  seed: number;
+};
+
+type Counts<T> = Map<string, Map<T, number>>;
+
+function count<T>(table: Counts<T>, context: string, value: T) {
+  const row = table.get(context) ?? new Map<T, number>();
+  row.set(value, (row.get(value) ?? 0) + 1);
+  table.set(context, row);
+}
+
+function melodyLine(notes: Note[]) {
+  const byTick = new Map<number, Note>();
+  notes.forEach((note) => {
+    const current = byTick.get(note.tick);
+    if (!current || note.midi > current.midi) byTick.set(note.tick, note);
+  });
+  return Array.from(byTick.values()).sort((a, b) => a.tick - b.tick);
+}
+
+// Order-2 contexts back off to order-1, then to anything seen.
+function sample<T>(random: Random, table: Counts<T>, contexts: string[], fallback: T) {
+  for (const context of contexts) {
+    const row = table.get(context);
+    if (row && row.size) return weightedPick(random, Array.from(row.entries()));
+  }
+  return fallback;
+}
+
+export function generateMelody(notes: Note[], options: MarkovOptions): Omit<Note, "id">[] {
+  const { ppq, key, start, end } = options;
+  const random = createRandom(options.seed);
+  const line = melodyLine(notes);
+
+  const intervals: Counts<number> = new Map();
+  const rhythms: Counts<number> = new Map(); // onset to next onset, in ticks
+  const gates: number[] = []; // length / inter-onset gap, how legato the user plays
+  for (let i = 1; i < line.length; i++) {
+    const interval = line[i].midi - line[i - 1].midi;
+    const previous = i > 1 ? line[i - 1].midi - line[i - 2].midi : null;
+    if (previous !== null) count(intervals, `${previous}`, interval);
+    count(intervals, "*", interval);
+    const gap = line[i].tick - line[i - 1].tick;
+    const previousGap = i > 1 ? line[i - 1].tick - line[i - 2].tick : null;
+    // Gaps shorter than the shortest note generated (flams, chord spreads) aren't rhythm
+    if (gap >= ppq / 16 && gap <= ppq * 4) {
+      if (previousGap !== null) count(rhythms, `${previousGap}`, gap);
+      count(rhythms, "*", gap);
+      gates.push(Math.min(1, line[i - 1].length / gap));
+    }
+  }
+  const gate = gates.length ? gates.reduce((a, b) => a + b, 0) / gates.length : 0.9;
+  const velocity = line.length ? Math.round(line.reduce((sum, n) => sum + n.vel, 0) / line.length) : 90;
+
+  // With nothing to learn from, wander by small steps in eighth notes
+  const stepFallback = () => weightedPick(random, [[-2, 2], [-1, 2], [1, 2], [2, 2], [0, 1], [3, 1], [-3, 1]] as [number, number][]);
+  const before = line.filter((note) => note.tick < start);
+  const last = before[before.length - 1];
+  let pitch = last ? last.midi : 60 + (hasKey(key) ? key.root : 0);
+  let previousInterval = before.length > 1 ? `${last.midi - before[before.length - 2].midi}` : "*";
+  let previousGap = before.length > 1 ? `${last.tick - before[before.length - 2].tick}` : "*";
+
+  const result: Omit<Note, "id">[] = [];
+  let tick = start;
+  while (tick < end) {
+    const interval = intervals.size ? sample(random, intervals, [previousInterval, "*"], 0) : stepFallback();
+    let next = pitch + interval;
+    // Stay within a comfortable melodic range around where the tune is
+    if (next > 84) next -= 12;
+    if (next < 48) next += 12;
+    if (hasKey(key)) next = snapToScale(key, next);
+    const gap = sample(random, rhythms, [previousGap, "*"], ppq / 2);
+    const length = Math.max(ppq / 16, Math.min(end - tick, Math.round(gap * gate)));
+    result.push({
+      tick,
+      length,
+      midi: Math.max(21, Math.min(108, next)),
+      vel: Math.max(1, Math.min(127, velocity + Math.round((random() - 0.5) * 16))),
+    });
+    previousInterval = `${next - pitch}`;
+    previousGap = `${gap}`;
+    pitch = next;
+    tick += gap;
+  }
+  return result;
+}
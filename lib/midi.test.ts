@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { MidiNote, readMidi, writeMidi } from "./midi";
+
+const note = (tick: number, length: number, midi: number, vel = 100): MidiNote => ({ id: `${tick}_${midi}`, tick, length, midi, vel });
+
+const shape = (notes: MidiNote[]) => notes.map(({ tick, length, midi, vel }) => ({ tick, length, midi, vel }));
+
+// A file from raw chunks, for input writeMidi never produces
+function smf(division: number, ...chunks: number[][]) {
+  const u32 = (n: number) => [(n >> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+  const header = [0x4d, 0x54, 0x68, 0x64, ...u32(6), 0, 1, 0, chunks.length, division >> 8, division & 0xff];
+  return new Uint8Array([...header, ...chunks.flat()]);
+}
+const chunk = (id: string, bytes: number[]) => [...Array.from(id, (c) => c.charCodeAt(0)), 0, 0, (bytes.length >> 8) & 0xff, bytes.length & 0xff, ...bytes];
+
+describe("writeMidi and readMidi", () => {
+  const lead = [note(0, 480, 60, 90), note(480, 240, 64, 100), note(720, 240, 67, 110)];
+  // the same pitch struck again before the first one ends
+  const overlapping = [note(0, 960, 48, 80), note(480, 960, 48, 70)];
+  const tempos = [
+    { tick: 0, bpm: 90 },
+    { tick: 1920, bpm: 132.5 },
+  ];
+  const timeSignatures = [
+    { tick: 0, numerator: 3, denominator: 4 },
+    { tick: 1440, numerator: 7, denominator: 8 },
+  ];
+  const file = writeMidi(
+    [
+      { name: "Lead", notes: lead, program: 25 },
+      { name: "Bass", notes: overlapping, program: 33 },
+      { name: "Drums", notes: [note(0, 10, 36)], channel: 9 },
+    ],
+    { ppq: 480, tempos, timeSignatures }
+  );
+  const parsed = readMidi(file, 480);
+
+  it("keeps the tempo map and time signatures", () => {
+    expect(parsed.tempos).toEqual(tempos);
+    expect(parsed.timeSignatures).toEqual(timeSignatures);
+  });
+
+  it("keeps tracks with their names, channels and programs", () => {
+    // the conductor track comes first and holds no notes
+    expect(parsed.format).toBe(1);
+    expect(parsed.tracks.map(({ name, channel, program }) => ({ name, channel, program }))).toEqual([
+      { name: "", channel: null, program: null },
+      { name: "Lead", channel: 0, program: 25 },
+      { name: "Bass", channel: 1, program: 33 },
+      { name: "Drums", channel: 9, program: null },
+    ]);
+  });
+
+  it("keeps notes, closing overlapping same-pitch notes in the order they started", () => {
+    expect(shape(parsed.tracks[1].notes)).toEqual(shape(lead));
+    expect(shape(parsed.tracks[2].notes)).toEqual(shape(overlapping));
+    expect(parsed.notes).toHaveLength(6);
+  });
+
+  it("doesn't cut a re-struck note short when one ends where the next starts", () => {
+    const repeated = [note(0, 240, 60), note(240, 240, 60)];
+    const result = readMidi(writeMidi([{ name: "", notes: repeated }]));
+    expect(shape(result.notes)).toEqual(shape(repeated));
+  });
+
+  it("rescales ticks from the file's division", () => {
+    const result = readMidi(writeMidi([{ name: "", notes: [note(96, 48, 60)] }], { ppq: 96 }), 480);
+    expect(result.division).toBe(96);
+    expect(shape(result.notes)).toEqual([{ tick: 480, length: 240, midi: 60, vel: 100 }]);
+  });
+});
+
+describe("readMidi", () => {
+  it("reads running status and note-on with velocity 0 as note-off", () => {
+    const track = [
+      0x00, 0x90, 60, 100, // note-on
+      0x00, 64, 90, // running status: another note-on
+      0x60, 60, 0, // running status, velocity 0: note-off after 96 ticks
+      0x60, 64, 0,
+      0x00, 0xff, 0x2f, 0x00,
+    ];
+    const result = readMidi(smf(96, chunk("MTrk", track)), 96);
+    expect(shape(result.notes)).toEqual([
+      { tick: 0, length: 96, midi: 60, vel: 100 },
+      { tick: 0, length: 192, midi: 64, vel: 90 },
+    ]);
+  });
+
+  it("skips unknown chunks", () => {
+    const track = [0x00, 0x90, 60, 100, 0x60, 0x80, 60, 0, 0x00, 0xff, 0x2f, 0x00];
+    const result = readMidi(smf(96, chunk("XFIH", [1, 2, 3]), chunk("MTrk", track)), 96);
+    expect(shape(result.notes)).toEqual([{ tick: 0, length: 96, midi: 60, vel: 100 }]);
+  });
+
+  it("rejects a truncated file", () => {
+    const file = writeMidi([{ name: "Lead", notes: [note(0, 480, 60)] }]);
+    expect(() => readMidi(file.subarray(0, file.length - 10))).toThrow("Track chunk runs past end of file");
+    expect(() => readMidi(file.subarray(0, 10))).toThrow("Unexpected end of MIDI data");
+  });
+
+  it("rejects files that aren't MIDI", () => {
+    expect(() => readMidi(new TextEncoder().encode("RIFF....WAVEfmt "))).toThrow("missing MThd header");
+  });
+});
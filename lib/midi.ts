@@ -1,103 +1,340 @@
-export function writeMidi(
-  notes: {
-    id: string;
-    tick: number;
-    length: number;
-    midi: number;
-    vel: number;
-  }[],
-  ppq = 480,
-  bpm = 120
-) {
-  // We'll use a tiny dependency-free midi writer producing a single-track MIDI (format 0) — binary builder.
-  // This is a compact implementation suitable for quick exports. For production, use @tonejs/midi.
-
-  function writeUint32BE(n: number) {
-    return new Uint8Array([
-      (n >> 24) & 0xff,
-      (n >> 16) & 0xff,
-      (n >> 8) & 0xff,
-      n & 0xff,
-    ]);
-  }
-  function writeUint16BE(n: number) {
-    return new Uint8Array([(n >> 8) & 0xff, n & 0xff]);
-  }
+export type MidiNote = {
+  id: string;
+  tick: number;
+  length: number;
+  midi: number;
+  vel: number;
+};
 
-  // header
-  const headerChunk = new Uint8Array([
-    ...new TextEncoder().encode("MThd"),
-    ...writeUint32BE(6),
-    ...writeUint16BE(0),
-    ...writeUint16BE(1),
-    ...writeUint16BE(ppq),
-  ]);
-
-  // track events: set tempo, then note on/off sorted by tick
-  const events: { tick: number; bytes: number[] }[] = [];
-  // tempo meta: set microseconds per quarter
-  const mpq = Math.round(60000000 / bpm);
-  events.push({
-    tick: 0,
-    bytes: [
-      0x00,
-      0xff,
-      0x51,
-      0x03,
-      (mpq >> 16) & 0xff,
-      (mpq >> 8) & 0xff,
-      mpq & 0xff,
-    ],
-  });
+export type MidiTempo = { tick: number; bpm: number };
+export type MidiTimeSignature = {
+  tick: number;
+  numerator: number;
+  denominator: number;
+};
+export type MidiTrack = {
+  name: string;
+  channel: number | null;
+  program: number | null;
+  notes: MidiNote[];
+};
+export type ParsedMidi = {
+  format: number;
+  // resolution of the source file; every tick below is already rescaled to `ppq`
+  division: number;
+  ppq: number;
+  tempos: MidiTempo[];
+  timeSignatures: MidiTimeSignature[];
+  tracks: MidiTrack[];
+  notes: MidiNote[];
+};
 
-  notes.forEach((n) => {
-    // note on
-    events.push({
-      tick: n.tick,
-      bytes: [0x00, 0x90, n.midi & 0x7f, n.vel & 0x7f],
-    });
-    // note off
-    events.push({
-      tick: n.tick + n.length,
-      bytes: [0x00, 0x80, n.midi & 0x7f, 0x40],
-    });
-  });
+export type MidiExportTrack = {
+  name: string;
+  notes: MidiNote[];
+  // 0-15; defaults to the track's position, skipping the GM drum channel
+  channel?: number;
+  // General MIDI program number, 0-127
+  program?: number;
+};
 
-  // sort by tick
-  events.sort((a, b) => a.tick - b.tick);
+export type MidiExportOptions = {
+  ppq?: number;
+  // name written on the conductor track
+  title?: string;
+  tempos?: MidiTempo[];
+  timeSignatures?: MidiTimeSignature[];
+};
+
+function writeUint32BE(n: number) {
+  return [(n >> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+}
+function writeUint16BE(n: number) {
+  return [(n >> 8) & 0xff, n & 0xff];
+}
+function writeVarLen(n: number) {
+  const vl: number[] = [];
+  let v = n;
+  do {
+    vl.unshift(v & 0x7f);
+    v = v >> 7;
+  } while (v > 0);
+  return vl.map((b, i) => (i !== vl.length - 1 ? b | 0x80 : b));
+}
+function metaText(type: number, text: string) {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  return [0xff, type, ...writeVarLen(bytes.length), ...bytes];
+}
+
+// `order` breaks ties at the same tick: meta first, then note-offs before
+// note-ons so a re-struck pitch is not cut short by its predecessor's off.
+type TrackEvent = { tick: number; order: number; bytes: number[] };
+
+function trackChunk(events: TrackEvent[]) {
+  events.sort((a, b) => a.tick - b.tick || a.order - b.order);
 
-  // build delta-times and bytes
   let lastTick = 0;
   const outBytes: number[] = [];
   events.forEach((ev) => {
-    const delta = ev.tick - lastTick;
+    outBytes.push(...writeVarLen(ev.tick - lastTick), ...ev.bytes);
     lastTick = ev.tick;
-    // write variable length quantity
-    let v = delta;
-    const vl: number[] = [];
-    do {
-      vl.unshift(v & 0x7f);
-      v = v >> 7;
-    } while (v > 0);
-    for (let i = 0; i < vl.length; i++) {
-      const val = vl[i];
-      if (i !== vl.length - 1) outBytes.push(val | 0x80);
-      else outBytes.push(val);
-    }
-    outBytes.push(...ev.bytes.slice(1)); // we already wrote delta; ev.bytes include a leading 0x00 placeholder
   });
-
   // end of track
   outBytes.push(0x00, 0xff, 0x2f, 0x00);
 
-  const trackChunkHeader = new TextEncoder().encode("MTrk");
-  const trackLen = writeUint32BE(outBytes.length);
-  const trackChunk = new Uint8Array([
-    ...trackChunkHeader,
-    ...trackLen,
+  return [
+    ...new TextEncoder().encode("MTrk"),
+    ...writeUint32BE(outBytes.length),
     ...outBytes,
-  ]);
+  ];
+}
+
+// Writes a format 1 file: a conductor track holding the tempo map and time
+// signatures, followed by one track per entry in `tracks`.
+export function writeMidi(tracks: MidiExportTrack[], options: MidiExportOptions = {}) {
+  const ppq = options.ppq ?? 480;
+  const tempos = options.tempos?.length ? options.tempos : [{ tick: 0, bpm: 120 }];
+  const timeSignatures = options.timeSignatures?.length
+    ? options.timeSignatures
+    : [{ tick: 0, numerator: 4, denominator: 4 }];
+
+  const conductor: TrackEvent[] = [];
+  if (options.title) {
+    conductor.push({ tick: 0, order: 0, bytes: metaText(0x03, options.title) });
+  }
+  tempos.forEach((t) => {
+    // tempo meta: microseconds per quarter
+    const mpq = Math.round(60000000 / t.bpm);
+    conductor.push({
+      tick: Math.round(t.tick),
+      order: 1,
+      bytes: [0xff, 0x51, 0x03, (mpq >> 16) & 0xff, (mpq >> 8) & 0xff, mpq & 0xff],
+    });
+  });
+  timeSignatures.forEach((ts) => {
+    conductor.push({
+      tick: Math.round(ts.tick),
+      order: 1,
+      // 24 MIDI clocks per click, 8 32nds per quarter
+      bytes: [0xff, 0x58, 0x04, ts.numerator, Math.round(Math.log2(ts.denominator)), 24, 8],
+    });
+  });
+
+  const chunks = [trackChunk(conductor)];
+
+  let nextChannel = 0;
+  tracks.forEach((track) => {
+    let channel = track.channel;
+    if (channel === undefined) {
+      if (nextChannel === 9) nextChannel++;
+      channel = nextChannel++;
+    }
+    const ch = channel & 0x0f;
+
+    const events: TrackEvent[] = [{ tick: 0, order: 0, bytes: metaText(0x03, track.name) }];
+    if (track.program !== undefined) {
+      events.push({ tick: 0, order: 1, bytes: [0xc0 | ch, track.program & 0x7f] });
+    }
+    track.notes.forEach((n) => {
+      const tick = Math.max(0, Math.round(n.tick));
+      const end = Math.max(tick + 1, Math.round(n.tick + n.length));
+      const vel = Math.max(1, Math.min(127, Math.round(n.vel)));
+      events.push({ tick, order: 3, bytes: [0x90 | ch, n.midi & 0x7f, vel] });
+      events.push({ tick: end, order: 2, bytes: [0x80 | ch, n.midi & 0x7f, 0x40] });
+    });
+    chunks.push(trackChunk(events));
+  });
+
+  const header = [
+    ...new TextEncoder().encode("MThd"),
+    ...writeUint32BE(6),
+    ...writeUint16BE(1),
+    ...writeUint16BE(chunks.length),
+    ...writeUint16BE(ppq),
+  ];
+
+  return new Uint8Array([...header, ...chunks.flat()]);
+}
+
+// Reads a Standard MIDI File (format 0 or 1) and returns its notes plus the
+// conductor data, with all ticks rescaled from the file's division to `ppq`.
+export function readMidi(data: Uint8Array, ppq = 480): ParsedMidi {
+  let pos = 0;
+
+  function fail(msg: string): never {
+    throw new Error(`${msg} (at byte ${pos})`);
+  }
+  function need(n: number) {
+    if (pos + n > data.length) fail("Unexpected end of MIDI data");
+  }
+  function readUint8() {
+    need(1);
+    return data[pos++];
+  }
+  function readUint16BE() {
+    need(2);
+    const v = (data[pos] << 8) | data[pos + 1];
+    pos += 2;
+    return v;
+  }
+  function readUint32BE() {
+    need(4);
+    const v =
+      ((data[pos] << 24) >>> 0) +
+      (data[pos + 1] << 16) +
+      (data[pos + 2] << 8) +
+      data[pos + 3];
+    pos += 4;
+    return v;
+  }
+  function readChunkId() {
+    need(4);
+    const id = String.fromCharCode(...data.subarray(pos, pos + 4));
+    pos += 4;
+    return id;
+  }
+  // variable length quantity: 7 bits per byte, high bit set on all but the last
+  function readVarLen() {
+    let v = 0;
+    for (let i = 0; i < 4; i++) {
+      const b = readUint8();
+      v = (v << 7) | (b & 0x7f);
+      if ((b & 0x80) === 0) return v;
+    }
+    return fail("Variable length quantity is longer than 4 bytes");
+  }
+
+  if (readChunkId() !== "MThd") fail("Not a MIDI file: missing MThd header");
+  const headerLength = readUint32BE();
+  const headerEnd = pos + headerLength;
+  const format = readUint16BE();
+  const trackCount = readUint16BE();
+  const division = readUint16BE();
+  pos = headerEnd;
+
+  if (format > 1) fail(`MIDI format ${format} is not supported`);
+  if (division & 0x8000) fail("SMPTE time division is not supported");
+  if (division === 0) fail("Invalid MIDI time division");
+
+  const scale = (tick: number) => Math.round((tick * ppq) / division);
+  const stamp = Date.now();
+
+  const tempos: MidiTempo[] = [];
+  const timeSignatures: MidiTimeSignature[] = [];
+  const tracks: MidiTrack[] = [];
+
+  for (let t = 0; t < trackCount && pos < data.length; t++) {
+    const chunkId = readChunkId();
+    const chunkLength = readUint32BE();
+    const chunkEnd = pos + chunkLength;
+    if (chunkId !== "MTrk") {
+      // unknown chunks must be skipped, per the spec
+      pos = chunkEnd;
+      t--;
+      continue;
+    }
+    if (chunkEnd > data.length) fail("Track chunk runs past end of file");
+
+    const track: MidiTrack = { name: "", channel: null, program: null, notes: [] };
+    // pending note-ons keyed by channel/pitch; a FIFO so overlapping
+    // same-pitch notes are closed in the order they were opened
+    const open = new Map<number, { tick: number; vel: number }[]>();
+    let tick = 0;
+    let runningStatus = 0;
+
+    const closeNote = (channel: number, midi: number, endTick: number) => {
+      const queue = open.get((channel << 7) | midi);
+      const start = queue?.shift();
+      if (!start) return; // stray note-off
+      const startTick = scale(start.tick);
+      track.notes.push({
+        id: `imported_${stamp}_${t}_${track.notes.length}`,
+        tick: startTick,
+        length: Math.max(1, scale(endTick) - startTick),
+        midi,
+        vel: start.vel,
+      });
+    };
+
+    while (pos < chunkEnd) {
+      tick += readVarLen();
+      let status = data[pos];
+      if (status & 0x80) {
+        pos++;
+      } else {
+        // running status: reuse the previous channel message status byte
+        if (!runningStatus) fail("Data byte without a running status");
+        status = runningStatus;
+      }
+
+      if (status === 0xff) {
+        const type = readUint8();
+        const length = readVarLen();
+        need(length);
+        const body = data.subarray(pos, pos + length);
+        pos += length;
+        if (type === 0x2f) break; // end of track
+        if (type === 0x03 && !track.name) {
+          track.name = new TextDecoder().decode(body);
+        } else if (type === 0x51 && length >= 3) {
+          const mpq = (body[0] << 16) | (body[1] << 8) | body[2];
+          if (mpq > 0) {
+            // round away the microsecond truncation (90 bpm -> 90.00009)
+            const bpm = Math.round((60000000 / mpq) * 100) / 100;
+            tempos.push({ tick: scale(tick), bpm });
+          }
+        } else if (type === 0x58 && length >= 2) {
+          timeSignatures.push({
+            tick: scale(tick),
+            numerator: body[0],
+            denominator: 2 ** body[1],
+          });
+        }
+        continue;
+      }
+
+      if (status === 0xf0 || status === 0xf7) {
+        // sysex: skip payload; does not affect running status
+        pos += readVarLen();
+        continue;
+      }
+
+      if (status >= 0xf0) fail(`Unexpected status byte 0x${status.toString(16)}`);
+
+      runningStatus = status;
+      const type = status & 0xf0;
+      const channel = status & 0x0f;
+      const d1 = readUint8();
+      const d2 = type === 0xc0 || type === 0xd0 ? 0 : readUint8();
+
+      if (type === 0x90 && d2 > 0) {
+        const key = (channel << 7) | d1;
+        const queue = open.get(key) ?? [];
+        queue.push({ tick, vel: d2 });
+        open.set(key, queue);
+        if (track.channel === null) track.channel = channel;
+      } else if (type === 0x80 || type === 0x90) {
+        // note-off, or note-on with velocity 0
+        closeNote(channel, d1, tick);
+      } else if (type === 0xc0 && track.program === null) {
+        track.program = d1;
+      }
+    }
+    pos = chunkEnd;
+
+    // close anything left hanging at the end of the track
+    open.forEach((queue, key) => {
+      while (queue.length) closeNote(key >> 7, key & 0x7f, tick);
+    });
+    track.notes.sort((a, b) => a.tick - b.tick || a.midi - b.midi);
+    tracks.push(track);
+  }
+
+  tempos.sort((a, b) => a.tick - b.tick);
+  timeSignatures.sort((a, b) => a.tick - b.tick);
+  const notes = tracks
+    .flatMap((track) => track.notes)
+    .sort((a, b) => a.tick - b.tick || a.midi - b.midi);
 
-  const full = new Uint8Array([...headerChunk, ...trackChunk]);
-  return full;
+  return { format, division, ppq, tempos, timeSignatures, tracks, notes };
 }
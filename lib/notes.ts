@@ -0,0 +1,35 @@
+export type Note = {
+  id: string;
+  tick: number;
+  length: number;
+  midi: number;
+  vel: number;
+};
+
+// Ids only need to be unique within a page session and across tabs pasting
+// into each other, so a random session prefix plus a counter is enough.
+const sessionPrefix = Math.random().toString(36).slice(2, 8);
+let nextId = 0;
+
+export function newNoteId() {
+  nextId++;
+  return `n_${sessionPrefix}_${nextId.toString(36)}`;
+}
+
+// Copies notes with fresh ids, e.g. for paste and duplicate.
+export function cloneNotes(notes: Note[], tickOffset = 0): Note[] {
+  return notes.map((note) => ({
+    ...note,
+    id: newNoteId(),
+    tick: note.tick + tickOffset,
+  }));
+}
+
+// First tick and end tick (exclusive) covered by a set of notes.
+export function noteSpan(notes: Note[]) {
+  if (notes.length === 0) return { start: 0, end: 0 };
+  return {
+    start: Math.min(...notes.map((note) => note.tick)),
+    end: Math.max(...notes.map((note) => note.tick + note.length)),
+  };
+}
@@ -0,0 +1,300 @@
+// Instruments as plain data: a voice, its envelopes and modulation, and an
+// effects chain. Presets are stored in projects and shared as JSON files;
+// lib/instruments.ts turns them into sound. Sampler presets only reference
+// their audio, which lives in IndexedDB (see lib/samples.ts).
+
+export type Waveform = "sine" | "triangle" | "square" | "sawtooth";
+export const waveforms: Waveform[] = ["sine", "triangle", "square", "sawtooth"];
+
+export type VoiceType = "synth" | "fm" | "am" | "sampler";
+export const voiceTypes: { id: VoiceType; label: string }[] = [
+  { id: "synth", label: "Subtractive" },
+  { id: "fm", label: "FM" },
+  { id: "am", label: "AM" },
+  { id: "sampler", label: "Sampler" },
+];
+
+export type Envelope = { attack: number; decay: number; sustain: number; release: number };
+
+export type Effect =
+  | { type: "filter"; filter: "lowpass" | "highpass" | "bandpass"; frequency: number; q: number }
+  | { type: "compressor"; threshold: number; ratio: number; attack: number; release: number }
+  | { type: "eq"; low: number; mid: number; high: number }
+  | { type: "chorus"; frequency: number; delayTime: number; depth: number; wet: number }
+  | { type: "delay"; delayTime: number; feedback: number; wet: number }
+  | { type: "reverb"; decay: number; wet: number };
+export type EffectType = Effect["type"];
+
+// One audio file of a sampler, played at its recorded pitch on `root`
+export type SampleZone = {
+  sample: string; // key of the audio in the IndexedDB samples store
+  name: string; // file name, for display
+  root: number; // MIDI note
+  layer: number; // index into SamplerSettings.layers
+};
+
+// Zones are grouped into velocity layers; each layer plays notes up to its
+// top velocity (1-127, ascending, the last one 127)
+export type SamplerSettings = { zones: SampleZone[]; layers: number[] };
+
+export const emptySampler = (): SamplerSettings => ({ zones: [], layers: [127] });
+
+export type InstrumentPreset = {
+  id: string;
+  name: string;
+  program: number; // General MIDI program written on MIDI export, 0-127
+  voice: VoiceType;
+  oscillator: Waveform;
+  envelope: Envelope;
+  // FM and AM voices only; AM ignores the index
+  modulation: { type: Waveform; harmonicity: number; index: number; envelope: Envelope };
+  volume: number; // dB
+  effects: Effect[]; // in signal order
+  // Sampler voices only; they use the envelope's attack and release
+  sampler?: SamplerSettings;
+};
+
+// Ranges for every numeric parameter, shared by validation and the sound designer
+export type ParamRange = { label: string; min: number; max: number; step: number };
+
+export const envelopeRanges: { [K in keyof Envelope]: ParamRange } = {
+  attack: { label: "Attack", min: 0.001, max: 4, step: 0.001 },
+  decay: { label: "Decay", min: 0.001, max: 4, step: 0.001 },
+  sustain: { label: "Sustain", min: 0, max: 1, step: 0.01 },
+  release: { label: "Release", min: 0.001, max: 8, step: 0.001 },
+};
+
+export const voiceRanges = {
+  harmonicity: { label: "Harmonicity", min: 0.1, max: 10, step: 0.01 },
+  index: { label: "Mod index", min: 0, max: 50, step: 0.1 },
+  volume: { label: "Volume", min: -40, max: 6, step: 1 },
+};
+
+export const effectRanges: { [T in EffectType]: { [param: string]: ParamRange } } = {
+  filter: {
+    frequency: { label: "Cutoff", min: 20, max: 20000, step: 1 },
+    q: { label: "Q", min: 0.1, max: 20, step: 0.1 },
+  },
+  compressor: {
+    threshold: { label: "Threshold", min: -60, max: 0, step: 1 },
+    ratio: { label: "Ratio", min: 1, max: 20, step: 0.1 },
+    attack: { label: "Attack", min: 0, max: 1, step: 0.001 },
+    release: { label: "Release", min: 0, max: 1, step: 0.01 },
+  },
+  eq: {
+    low: { label: "Low", min: -24, max: 24, step: 0.5 },
+    mid: { label: "Mid", min: -24, max: 24, step: 0.5 },
+    high: { label: "High", min: -24, max: 24, step: 0.5 },
+  },
+  chorus: {
+    frequency: { label: "Rate", min: 0.1, max: 10, step: 0.1 },
+    delayTime: { label: "Delay (ms)", min: 1, max: 20, step: 0.5 },
+    depth: { label: "Depth", min: 0, max: 1, step: 0.01 },
+    wet: { label: "Mix", min: 0, max: 1, step: 0.01 },
+  },
+  delay: {
+    delayTime: { label: "Time (s)", min: 0.01, max: 1, step: 0.01 },
+    feedback: { label: "Feedback", min: 0, max: 0.95, step: 0.01 },
+    wet: { label: "Mix", min: 0, max: 1, step: 0.01 },
+  },
+  reverb: {
+    decay: { label: "Decay (s)", min: 0.1, max: 10, step: 0.1 },
+    wet: { label: "Mix", min: 0, max: 1, step: 0.01 },
+  },
+};
+
+export const filterTypes = ["lowpass", "highpass", "bandpass"] as const;
+
+// A newly added effect
+export const effectDefaults: { [T in EffectType]: Extract<Effect, { type: T }> } = {
+  filter: { type: "filter", filter: "lowpass", frequency: 2000, q: 1 },
+  compressor: { type: "compressor", threshold: -18, ratio: 3, attack: 0.005, release: 0.15 },
+  eq: { type: "eq", low: 0, mid: 0, high: 0 },
+  chorus: { type: "chorus", frequency: 2, delayTime: 2.5, depth: 0.3, wet: 0.3 },
+  delay: { type: "delay", delayTime: 0.25, feedback: 0.3, wet: 0.2 },
+  reverb: { type: "reverb", decay: 2, wet: 0.3 },
+};
+
+const flatEnvelope: Envelope = { attack: 0.01, decay: 0.01, sustain: 1, release: 0.5 };
+
+// The instruments every new project starts with. Their ids are the old
+// instrument names, so tracks from earlier projects keep their sound.
+const builtInPresets: InstrumentPreset[] = [
+  {
+    id: "piano",
+    name: "Piano",
+    program: 0, // Acoustic Grand Piano
+    voice: "fm",
+    oscillator: "triangle",
+    envelope: { attack: 0.01, decay: 0.5, sustain: 0.4, release: 2.5 },
+    modulation: { type: "sine", harmonicity: 2.5, index: 12, envelope: { attack: 0.008, decay: 0.2, sustain: 0.3, release: 1.5 } },
+    volume: 0,
+    effects: [
+      { type: "compressor", threshold: -18, ratio: 2.5, attack: 0.005, release: 0.15 },
+      { type: "chorus", frequency: 2, delayTime: 2.5, depth: 0.3, wet: 0.15 },
+      { type: "eq", low: 1.5, mid: 0.5, high: -0.5 },
+      { type: "reverb", decay: 2.2, wet: 0.3 },
+    ],
+  },
+  {
+    id: "guitar",
+    name: "Guitar",
+    program: 25, // Acoustic Guitar (steel)
+    voice: "synth",
+    oscillator: "sawtooth",
+    envelope: { attack: 0.01, decay: 0.2, sustain: 0.3, release: 0.8 },
+    modulation: { type: "square", harmonicity: 3, index: 10, envelope: flatEnvelope },
+    volume: 0,
+    effects: [],
+  },
+  {
+    id: "bass",
+    name: "Bass",
+    program: 33, // Electric Bass (finger)
+    voice: "synth",
+    oscillator: "square",
+    envelope: { attack: 0.1, decay: 0.3, sustain: 0.4, release: 1.2 },
+    modulation: { type: "square", harmonicity: 3, index: 10, envelope: flatEnvelope },
+    volume: 0,
+    effects: [{ type: "filter", filter: "lowpass", frequency: 300, q: 1 }],
+  },
+  {
+    id: "bell",
+    name: "Bell",
+    program: 14, // Tubular Bells
+    voice: "fm",
+    oscillator: "sine",
+    envelope: { attack: 0.001, decay: 1.5, sustain: 0, release: 2 },
+    modulation: { type: "sine", harmonicity: 3.5, index: 8, envelope: { attack: 0.001, decay: 1.2, sustain: 0, release: 1 } },
+    volume: 0,
+    effects: [{ type: "reverb", decay: 3, wet: 0.25 }],
+  },
+  {
+    id: "pad",
+    name: "Pad",
+    program: 89, // Pad 2 (warm)
+    voice: "am",
+    oscillator: "sawtooth",
+    envelope: { attack: 0.6, decay: 0.5, sustain: 0.8, release: 3 },
+    modulation: { type: "sine", harmonicity: 1.5, index: 10, envelope: { attack: 0.5, decay: 0.5, sustain: 1, release: 3 } },
+    volume: -6,
+    effects: [
+      { type: "filter", filter: "lowpass", frequency: 2500, q: 0.7 },
+      { type: "chorus", frequency: 0.8, delayTime: 3.5, depth: 0.6, wet: 0.4 },
+      { type: "reverb", decay: 4, wet: 0.4 },
+    ],
+  },
+];
+
+export function defaultPresets(): InstrumentPreset[] {
+  return builtInPresets.map((preset) => JSON.parse(JSON.stringify(preset)));
+}
+
+let nextId = 0;
+
+export function newPresetId() {
+  nextId++;
+  return `p_${Date.now().toString(36)}_${nextId.toString(36)}`;
+}
+
+export function copyPreset(preset: InstrumentPreset, name: string): InstrumentPreset {
+  return { ...JSON.parse(JSON.stringify(preset)), id: newPresetId(), name };
+}
+
+// Problems with a preset as "path message", in the style of project
+// validation; an empty list means the preset can be built.
+export function presetErrors(value: unknown, path: string): string[] {
+  const errors: string[] = [];
+  const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+  const range = (v: unknown, at: string, r: Pick<ParamRange, "min" | "max">) => {
+    if (typeof v !== "number" || !isFinite(v) || v < r.min || v > r.max) {
+      errors.push(`${at} must be a number from ${r.min} to ${r.max}`);
+    }
+  };
+  const oneOf = (v: unknown, at: string, options: readonly string[]) => {
+    if (typeof v !== "string" || !options.includes(v)) errors.push(`${at} must be one of ${options.join(", ")}`);
+  };
+  const envelope = (v: unknown, at: string) => {
+    if (!isObject(v)) return errors.push(`${at} must be an object`);
+    (Object.keys(envelopeRanges) as (keyof Envelope)[]).forEach((key) => range(v[key], `${at}.${key}`, envelopeRanges[key]));
+  };
+
+  if (!isObject(value)) return [`${path} must be an object`];
+  if (typeof value.id !== "string") errors.push(`${path}.id must be a string`);
+  if (typeof value.name !== "string") errors.push(`${path}.name must be a string`);
+  range(value.program, `${path}.program`, { min: 0, max: 127 });
+  oneOf(value.voice, `${path}.voice`, voiceTypes.map((voice) => voice.id));
+  oneOf(value.oscillator, `${path}.oscillator`, waveforms);
+  envelope(value.envelope, `${path}.envelope`);
+  range(value.volume, `${path}.volume`, voiceRanges.volume);
+  const modulation = value.modulation;
+  if (isObject(modulation)) {
+    oneOf(modulation.type, `${path}.modulation.type`, waveforms);
+    range(modulation.harmonicity, `${path}.modulation.harmonicity`, voiceRanges.harmonicity);
+    range(modulation.index, `${path}.modulation.index`, voiceRanges.index);
+    envelope(modulation.envelope, `${path}.modulation.envelope`);
+  } else {
+    errors.push(`${path}.modulation must be an object`);
+  }
+  if (value.voice === "sampler") {
+    const sampler = value.sampler;
+    if (!isObject(sampler)) {
+      errors.push(`${path}.sampler must be an object`);
+    } else if (!Array.isArray(sampler.layers) || !sampler.layers.length) {
+      errors.push(`${path}.sampler.layers must be a list with at least one layer`);
+    } else {
+      const layers = sampler.layers;
+      layers.forEach((top, i) => range(top, `${path}.sampler.layers[${i}]`, { min: i ? (layers[i - 1] as number) + 1 : 1, max: 127 }));
+      if (layers[layers.length - 1] !== 127) errors.push(`${path}.sampler.layers must end at 127`);
+      if (!Array.isArray(sampler.zones)) {
+        errors.push(`${path}.sampler.zones must be a list`);
+      } else {
+        sampler.zones.forEach((zone, i) => {
+          const at = `${path}.sampler.zones[${i}]`;
+          if (!isObject(zone)) return errors.push(`${at} must be an object`);
+          if (typeof zone.sample !== "string") errors.push(`${at}.sample must be a string`);
+          if (typeof zone.name !== "string") errors.push(`${at}.name must be a string`);
+          range(zone.root, `${at}.root`, { min: 0, max: 127 });
+          range(zone.layer, `${at}.layer`, { min: 0, max: layers.length - 1 });
+        });
+      }
+    }
+  }
+  if (!Array.isArray(value.effects)) {
+    errors.push(`${path}.effects must be a list`);
+  } else {
+    value.effects.forEach((effect, i) => {
+      const at = `${path}.effects[${i}]`;
+      if (!isObject(effect)) return errors.push(`${at} must be an object`);
+      const ranges = effectRanges[effect.type as EffectType];
+      if (!ranges) return errors.push(`${at}.type must be one of ${Object.keys(effectRanges).join(", ")}`);
+      Object.keys(ranges).forEach((param) => range(effect[param], `${at}.${param}`, ranges[param]));
+      if (effect.type === "filter") oneOf(effect.filter, `${at}.filter`, filterTypes);
+    });
+  }
+  return errors;
+}
+
+// Shared preset files wrap the preset so they can't be mistaken for projects.
+// A sampler's audio isn't included, so its zones only play where the same
+// samples were imported.
+export const PRESET_TYPE = "piano-roll-preset";
+
+export function serializePreset(preset: InstrumentPreset) {
+  return JSON.stringify({ type: PRESET_TYPE, version: 1, preset }, null, 2);
+}
+
+// Reads a shared preset; it gets a fresh id so it never replaces one the
+// project already has. Throws an Error that can be shown as-is.
+export function parsePreset(text: string): InstrumentPreset {
+  let data: { type?: unknown; preset?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a preset file: the file is not valid JSON");
+  }
+  if (!data || data.type !== PRESET_TYPE) throw new Error("Not an instrument preset file");
+  const errors = presetErrors(data.preset, "preset");
+  if (errors.length) throw new Error(`Invalid preset: ${errors.slice(0, 5).join("; ")}`);
+  return { ...(data.preset as InstrumentPreset), id: newPresetId() };
+}
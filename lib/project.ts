@@ -0,0 +1,276 @@
+import { dbDelete, dbGet, dbPut } from "./db";
+import { Note } from "./notes";
+import { InstrumentPreset, defaultPresets, presetErrors } from "./presets";
+import { KeySignature, defaultKey } from "./scales";
+import { TempoMap, normalizeTempoMap } from "./tempo";
+import { Track } from "./tracks";
+
+// Saved editor state. Files carry their schema version; parseProject runs
+// every migration between that version and PROJECT_VERSION before
+// validating, so bump the version and add a migration whenever the shape
+// changes rather than editing old fields in place.
+export const PROJECT_TYPE = "piano-roll-project";
+export const PROJECT_VERSION = 4;
+
+export type LoopRegion = { enabled: boolean; start: number; end: number };
+
+export type ProjectView = {
+  zoom: number;
+  scrollTick: number;
+  scrollOffset: number; // rows scrolled down from the top key (C8)
+  snap: string; // grid.ts snap option id
+};
+
+export type Project = {
+  type: typeof PROJECT_TYPE;
+  version: number;
+  ppq: number;
+  tempoMap: TempoMap;
+  tracks: Track[];
+  presets: InstrumentPreset[]; // instruments the tracks can use, by id
+  activeTrackId: string;
+  key: KeySignature;
+  loop: LoopRegion;
+  view: ProjectView;
+};
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] upgrades a version n file to version n + 1
+const migrations: { [version: number]: Migration } = {
+  // 2: key and scale
+  1: (data) => ({ ...data, key: defaultKey() }),
+  // 3: instrument presets; the built-in ones have the old instrument names as ids
+  2: (data) => ({ ...data, presets: defaultPresets() }),
+  // 4: sampler presets; earlier presets are all synths and need no change
+  3: (data) => data,
+};
+
+export function migrateProject(data: Record<string, unknown>) {
+  let version = data.version as number;
+  while (version < PROJECT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from project version ${version}`);
+    data = { ...migrate(data), version: version + 1 };
+    version++;
+  }
+  return data;
+}
+
+// Collects problems as "path: message" so one bad note reports where it is
+// instead of surfacing later as a NaN on the canvas.
+function checker() {
+  const errors: string[] = [];
+  const fail = (path: string, message: string) => {
+    errors.push(`${path} ${message}`);
+    return false;
+  };
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    !!v && typeof v === "object" && !Array.isArray(v);
+  const number = (v: unknown, path: string, min = -Infinity, max = Infinity) =>
+    typeof v === "number" && isFinite(v) && v >= min && v <= max
+      ? true
+      : fail(path, min > -Infinity && max < Infinity ? `must be a number from ${min} to ${max}` : "must be a number");
+  const string = (v: unknown, path: string) =>
+    typeof v === "string" ? true : fail(path, "must be a string");
+  const boolean = (v: unknown, path: string) =>
+    typeof v === "boolean" ? true : fail(path, "must be true or false");
+  const object = (v: unknown, path: string): v is Record<string, unknown> =>
+    isObject(v) ? true : fail(path, "must be an object");
+  const array = (v: unknown, path: string): v is unknown[] =>
+    Array.isArray(v) ? true : fail(path, "must be a list");
+  return { errors, fail, number, string, boolean, object, array };
+}
+
+export function validateProject(data: unknown): Project {
+  const c = checker();
+  if (!c.object(data, "project")) throw new Error("Not a project file");
+  if (data.type !== PROJECT_TYPE) throw new Error("Not a piano roll project file");
+
+  c.number(data.ppq, "ppq", 1, 65535);
+
+  if (c.object(data.tempoMap, "tempoMap")) {
+    const { tempos, timeSignatures } = data.tempoMap;
+    if (c.array(tempos, "tempoMap.tempos")) {
+      tempos.forEach((t, i) => {
+        const path = `tempoMap.tempos[${i}]`;
+        if (!c.object(t, path)) return;
+        c.number(t.tick, `${path}.tick`, 0);
+        c.number(t.bpm, `${path}.bpm`, 1, 1000);
+      });
+    }
+    if (c.array(timeSignatures, "tempoMap.timeSignatures")) {
+      timeSignatures.forEach((ts, i) => {
+        const path = `tempoMap.timeSignatures[${i}]`;
+        if (!c.object(ts, path)) return;
+        c.number(ts.tick, `${path}.tick`, 0);
+        c.number(ts.numerator, `${path}.numerator`, 1, 64);
+        c.number(ts.denominator, `${path}.denominator`, 1, 64);
+      });
+    }
+  }
+
+  if (c.array(data.tracks, "tracks")) {
+    if (data.tracks.length === 0) c.fail("tracks", "must contain at least one track");
+    data.tracks.forEach((track, i) => {
+      const path = `tracks[${i}]`;
+      if (!c.object(track, path)) return;
+      c.string(track.id, `${path}.id`);
+      c.string(track.name, `${path}.name`);
+      c.string(track.instrument, `${path}.instrument`);
+      c.number(track.volume, `${path}.volume`, -100, 24);
+      c.number(track.pan, `${path}.pan`, -1, 1);
+      c.boolean(track.mute, `${path}.mute`);
+      c.boolean(track.solo, `${path}.solo`);
+      if (!c.array(track.notes, `${path}.notes`)) return;
+      track.notes.forEach((note, j) => {
+        const notePath = `${path}.notes[${j}]`;
+        if (!c.object(note, notePath)) return;
+        c.string(note.id, `${notePath}.id`);
+        c.number(note.tick, `${notePath}.tick`, 0);
+        c.number(note.length, `${notePath}.length`, 1);
+        c.number(note.midi, `${notePath}.midi`, 0, 127);
+        c.number(note.vel, `${notePath}.vel`, 1, 127);
+      });
+    });
+  }
+  c.string(data.activeTrackId, "activeTrackId");
+
+  if (c.array(data.presets, "presets")) {
+    if (data.presets.length === 0) c.fail("presets", "must contain at least one preset");
+    data.presets.forEach((preset, i) => c.errors.push(...presetErrors(preset, `presets[${i}]`)));
+  }
+
+  if (c.object(data.key, "key")) {
+    c.number(data.key.root, "key.root", 0, 11);
+    c.string(data.key.scale, "key.scale");
+    if (c.array(data.key.custom, "key.custom")) {
+      data.key.custom.forEach((degree, i) => c.number(degree, `key.custom[${i}]`, 0, 11));
+    }
+  }
+
+  if (c.object(data.loop, "loop")) {
+    c.boolean(data.loop.enabled, "loop.enabled");
+    c.number(data.loop.start, "loop.start", 0);
+    c.number(data.loop.end, "loop.end", 0);
+  }
+  if (c.object(data.view, "view")) {
+    c.number(data.view.zoom, "view.zoom", 0);
+    c.number(data.view.scrollTick, "view.scrollTick", 0);
+    c.number(data.view.scrollOffset, "view.scrollOffset", 0);
+    c.string(data.view.snap, "view.snap");
+  }
+
+  if (c.errors.length) {
+    const more = c.errors.length > 5 ? ` (and ${c.errors.length - 5} more problems)` : "";
+    throw new Error(`Invalid project: ${c.errors.slice(0, 5).join("; ")}${more}`);
+  }
+  return data as unknown as Project;
+}
+
+function rescaleProject(project: Project, ppq: number): Project {
+  if (project.ppq === ppq) return project;
+  const scale = ppq / project.ppq;
+  const tick = (t: number) => Math.round(t * scale);
+  return {
+    ...project,
+    ppq,
+    tempoMap: {
+      tempos: project.tempoMap.tempos.map((t) => ({ ...t, tick: tick(t.tick) })),
+      timeSignatures: project.tempoMap.timeSignatures.map((ts) => ({ ...ts, tick: tick(ts.tick) })),
+    },
+    tracks: project.tracks.map((track) => ({
+      ...track,
+      notes: track.notes.map((note) => ({
+        ...note,
+        tick: tick(note.tick),
+        length: Math.max(1, tick(note.length)),
+      })),
+    })),
+    loop: { ...project.loop, start: tick(project.loop.start), end: tick(project.loop.end) },
+    view: { ...project.view, scrollTick: tick(project.view.scrollTick) },
+  };
+}
+
+export function serializeProject(project: Project) {
+  return JSON.stringify(project);
+}
+
+// Parses, migrates and validates a project file, rescaling its ticks to
+// `ppq`. Throws an Error whose message can be shown to the user as-is.
+export function parseProject(text: string, ppq: number): Project {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a project file: the file is not valid JSON");
+  }
+  if (!data || typeof data !== "object" || (data as { type?: unknown }).type !== PROJECT_TYPE) {
+    throw new Error("Not a piano roll project file");
+  }
+  const version = (data as { version?: unknown }).version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error("Invalid project: version must be a whole number");
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(
+      `This project was saved by a newer version of the editor (format ${version}, this editor reads up to ${PROJECT_VERSION})`
+    );
+  }
+
+  const project = validateProject(migrateProject(data as Record<string, unknown>));
+  if (!project.tracks.some((track) => track.id === project.activeTrackId)) {
+    project.activeTrackId = project.tracks[0].id;
+  }
+  const round = (note: Note): Note => ({
+    ...note,
+    tick: Math.round(note.tick),
+    length: Math.round(note.length),
+    midi: Math.round(note.midi),
+    vel: Math.round(note.vel),
+  });
+  project.tracks = project.tracks.map((track) => ({ ...track, notes: track.notes.map(round) }));
+  project.tempoMap = normalizeTempoMap(project.tempoMap);
+  return rescaleProject(project, ppq);
+}
+
+// Autosave keeps one project snapshot in IndexedDB, falling back to
+// localStorage where IndexedDB is unavailable (private windows, old
+// browsers). Snapshots are stored as text so they go through the same
+// migrations as files when the schema changes between visits.
+const AUTOSAVE_KEY = "piano-roll-autosave";
+
+export type Autosave = { savedAt: number; text: string };
+
+export async function saveAutosave(project: Project) {
+  const entry: Autosave = { savedAt: Date.now(), text: serializeProject(project) };
+  try {
+    await dbPut("autosave", AUTOSAVE_KEY, entry);
+  } catch {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(entry));
+  }
+}
+
+export async function loadAutosave(): Promise<Autosave | null> {
+  let entry: Autosave | undefined;
+  try {
+    entry = await dbGet<Autosave>("autosave", AUTOSAVE_KEY);
+  } catch {
+    const stored = localStorage.getItem(AUTOSAVE_KEY);
+    try {
+      entry = stored ? JSON.parse(stored) : undefined;
+    } catch {
+      entry = undefined;
+    }
+  }
+  if (!entry || typeof entry.text !== "string" || typeof entry.savedAt !== "number") return null;
+  return entry;
+}
+
+export async function clearAutosave() {
+  try {
+    await dbDelete("autosave", AUTOSAVE_KEY);
+  } catch {
+    localStorage.removeItem(AUTOSAVE_KEY);
+  }
+}
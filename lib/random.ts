@@ -0,0 +1,25 @@
+// Small seeded PRNG (mulberry32) so generated material is repeatable:
+// the same seed gives the same suggestion or humanize result.
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export type Random = ReturnType<typeof createRandom>;
+
+// Picks a key from a table of counts, in proportion to the counts.
+export function weightedPick<T>(random: Random, entries: [T, number][]) {
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let r = random() * total;
+  for (const [value, weight] of entries) {
+    r -= weight;
+    if (r < 0) return value;
+  }
+  return entries[entries.length - 1][0];
+}
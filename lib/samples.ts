@@ -0,0 +1,124 @@
+import { dbGet, dbPut } from "./db";
+import { SamplerSettings, SampleZone } from "./presets";
+import { pitchClassNames } from "./scales";
+
+// Audio files for sampler presets. The files are kept in IndexedDB under
+// a generated key, so a project reopens with its sounds without the
+// originals or a network; presets only hold the keys.
+
+export const audioExtensions = [".wav", ".mp3", ".ogg"];
+
+export const isAudioFile = (name: string) => audioExtensions.some((ext) => name.toLowerCase().endsWith(ext));
+
+type StoredSample = { name: string; type: string; data: ArrayBuffer };
+
+let nextId = 0;
+
+function newSampleId() {
+  nextId++;
+  return `s_${Date.now().toString(36)}_${nextId.toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function midiNoteName(midi: number) {
+  return `${pitchClassNames[midi % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+const accidentals: { [sign: string]: number } = { "#": 1, s: 1, "♯": 1, b: -1, "♭": -1 };
+
+// The note a file name gives, e.g. "C4.wav", "Piano_F#3_v2.ogg", "Bb-1.mp3"
+// (middle C is C4), falling back to a bare MIDI number like "piano_060.wav".
+// The last match wins, since names tend to start with the instrument.
+export function noteFromFileName(fileName: string): number | null {
+  const name = fileName.replace(/\.[^.]+$/, "");
+  const named = Array.from(name.matchAll(/(?:^|[^A-Za-z])([A-Ga-g])(#|s|♯|b|♭)?(-?\d)(?!\d)/g)).pop();
+  if (named) {
+    const pitchClass = pitchClassNames.indexOf(named[1].toUpperCase());
+    const midi = (Number(named[3]) + 1) * 12 + pitchClass + (accidentals[named[2] ?? ""] ?? 0);
+    return midi >= 0 && midi <= 127 ? midi : null;
+  }
+  const number = Array.from(name.matchAll(/(?:^|[^A-Za-z0-9])(\d{2,3})(?!\d)/g)).pop();
+  const midi = number ? Number(number[1]) : NaN;
+  return midi >= 12 && midi <= 127 ? midi : null;
+}
+
+const dynamics = ["ppp", "pp", "p", "mp", "mf", "f", "ff", "fff"];
+
+// A loudness rank from a file name ("v3", "vel100", "mf"), for sorting
+// files into velocity layers; null when the name doesn't say
+export function layerHint(fileName: string): number | null {
+  const name = fileName.replace(/\.[^.]+$/, "");
+  const velocity = name.match(/(?:^|[^A-Za-z])v(?:el)?(\d{1,3})(?!\d)/i);
+  if (velocity) return Number(velocity[1]);
+  const dynamic = Array.from(name.matchAll(/(?:^|[^A-Za-z])(p{1,3}|mp|mf|f{1,3})(?![A-Za-z0-9#])/g)).pop();
+  return dynamic ? dynamics.indexOf(dynamic[1]) : null;
+}
+
+// Top velocities for `count` layers of equal width
+export function evenLayers(count: number) {
+  return Array.from({ length: count }, (_, i) => Math.round((127 * (i + 1)) / count));
+}
+
+export function layerForVelocity(layers: number[], velocity: number) {
+  const index = layers.findIndex((top) => velocity <= top);
+  return index === -1 ? layers.length - 1 : index;
+}
+
+// Every file in a drop, walking into dropped folders
+export async function filesFromDrop(transfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(transfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (!entries.length) return Array.from(transfer.files);
+
+  const walk = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+      return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries hands out a directory in batches until it returns none
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (!batch.length) break;
+      children.push(...batch);
+    }
+    return (await Promise.all(children.map(walk))).flat();
+  };
+  return (await Promise.all(entries.map(walk))).flat();
+}
+
+export async function loadSample(id: string): Promise<ArrayBuffer> {
+  const sample = await dbGet<StoredSample>("samples", id);
+  if (!sample) throw new Error("The sample is not stored in this browser");
+  return sample.data;
+}
+
+// Stores the audio files among `files` and maps them into `sampler`: roots
+// come from the file names, and names that mark loudness ("v1", "ff")
+// split a sampler into that many velocity layers. Files whose name has no
+// note go on middle C and are listed in `unmapped`.
+export async function importSamples(files: File[], sampler: SamplerSettings) {
+  const audio = files.filter((file) => isAudioFile(file.name)).sort((a, b) => a.name.localeCompare(b.name));
+  if (!audio.length) throw new Error(`No ${audioExtensions.join(", ")} files found`);
+
+  const hints = audio.map((file) => layerHint(file.name));
+  const ranks = Array.from(new Set(hints.filter((hint): hint is number => hint !== null))).sort((a, b) => a - b);
+  const layers = ranks.length > sampler.layers.length ? evenLayers(ranks.length) : sampler.layers;
+  const unmapped: string[] = [];
+
+  const zones: SampleZone[] = [];
+  for (const [i, file] of audio.entries()) {
+    const sample = newSampleId();
+    await dbPut("samples", sample, { name: file.name, type: file.type, data: await file.arrayBuffer() } satisfies StoredSample);
+    const root = noteFromFileName(file.name);
+    if (root === null) unmapped.push(file.name);
+    const hint = hints[i];
+    zones.push({
+      sample,
+      name: file.name,
+      root: root ?? 60,
+      layer: hint === null ? 0 : Math.min(ranks.indexOf(hint), layers.length - 1),
+    });
+  }
+  return { sampler: { layers, zones: [...sampler.zones, ...zones] }, unmapped };
+}
@@ -0,0 +1,79 @@
+import { Note } from "./notes";
+
+// Scales as semitone offsets from the root. "chromatic" means no key is
+// set; "custom" takes its degrees from KeySignature.custom.
+export type Scale = { id: string; name: string; intervals: number[] };
+
+export const CHROMATIC = "chromatic";
+export const CUSTOM_SCALE = "custom";
+
+export const scales: Scale[] = [
+  { id: CHROMATIC, name: "Chromatic (no key)", intervals: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] },
+  { id: "major", name: "Major", intervals: [0, 2, 4, 5, 7, 9, 11] },
+  { id: "minor", name: "Natural minor", intervals: [0, 2, 3, 5, 7, 8, 10] },
+  { id: "harmonic-minor", name: "Harmonic minor", intervals: [0, 2, 3, 5, 7, 8, 11] },
+  { id: "dorian", name: "Dorian", intervals: [0, 2, 3, 5, 7, 9, 10] },
+  { id: "phrygian", name: "Phrygian", intervals: [0, 1, 3, 5, 7, 8, 10] },
+  { id: "lydian", name: "Lydian", intervals: [0, 2, 4, 6, 7, 9, 11] },
+  { id: "mixolydian", name: "Mixolydian", intervals: [0, 2, 4, 5, 7, 9, 10] },
+  { id: "locrian", name: "Locrian", intervals: [0, 1, 3, 5, 6, 8, 10] },
+  { id: "major-pentatonic", name: "Major pentatonic", intervals: [0, 2, 4, 7, 9] },
+  { id: "minor-pentatonic", name: "Minor pentatonic", intervals: [0, 3, 5, 7, 10] },
+  { id: "blues", name: "Blues", intervals: [0, 3, 5, 6, 7, 10] },
+  { id: CUSTOM_SCALE, name: "Custom", intervals: [] },
+];
+
+export const pitchClassNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+export type KeySignature = {
+  root: number; // pitch class, 0 = C
+  scale: string; // id in `scales`
+  custom: number[]; // degrees of the custom scale
+};
+
+export function defaultKey(): KeySignature {
+  return { root: 0, scale: CHROMATIC, custom: [0, 2, 4, 5, 7, 9, 11] };
+}
+
+export function scaleIntervals(key: KeySignature) {
+  if (key.scale === CUSTOM_SCALE) {
+    // An empty custom scale would leave nothing to snap to; treat it as no key
+    return key.custom.length ? [...key.custom].sort((a, b) => a - b) : scales[0].intervals;
+  }
+  return (scales.find((scale) => scale.id === key.scale) ?? scales[0]).intervals;
+}
+
+export function hasKey(key: KeySignature) {
+  return scaleIntervals(key).length < 12;
+}
+
+export function inScale(key: KeySignature, midi: number) {
+  const pitchClass = (((midi - key.root) % 12) + 12) % 12;
+  return scaleIntervals(key).includes(pitchClass);
+}
+
+// Nearest scale note; ties go down so a sharp snaps back to its natural.
+export function snapToScale(key: KeySignature, midi: number) {
+  for (let distance = 0; distance < 12; distance++) {
+    if (inScale(key, midi - distance)) return midi - distance;
+    if (inScale(key, midi + distance)) return midi + distance;
+  }
+  return midi;
+}
+
+// Moves a pitch by whole scale degrees (out-of-scale pitches start from
+// their nearest scale note).
+export function stepInScale(key: KeySignature, midi: number, steps: number) {
+  let result = snapToScale(key, midi);
+  const direction = Math.sign(steps);
+  for (let i = 0; i < Math.abs(steps); i++) {
+    do {
+      result += direction;
+    } while (!inScale(key, result));
+  }
+  return result;
+}
+
+export function conformToScale(notes: Note[], key: KeySignature): Note[] {
+  return notes.map((note) => ({ ...note, midi: snapToScale(key, note.midi) }));
+}
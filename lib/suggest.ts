@@ -0,0 +1,124 @@
+import { generateMelody } from "./markov";
+import { Note } from "./notes";
+import { KeySignature, defaultKey } from "./scales";
+
+// Wire format of /api/suggest, shared by the route, its providers and the
+// editor. Notes travel without ids; the editor assigns fresh ones.
+export type SuggestNote = Omit<Note, "id">;
+
+export type SuggestRequest = {
+  notes: SuggestNote[]; // context, usually the active track
+  ppq: number;
+  bpm: number;
+  key: KeySignature;
+  range: { start: number; end: number }; // ticks to fill
+  count: number; // candidates wanted
+  seed: number; // vary to get different candidates
+};
+
+export type SuggestResponse = {
+  provider: string;
+  candidates: SuggestNote[][];
+  warning?: string;
+};
+
+// A source of melody continuations. Providers may return fewer candidates
+// than asked for, but never notes outside the requested range.
+export type SuggestionProvider = {
+  name: string;
+  suggest: (request: SuggestRequest) => Promise<SuggestNote[][]>;
+};
+
+// Longest range one request may fill, in 4/4 bars; generation time and
+// response size grow with it
+export const MAX_SUGGEST_BARS = 64;
+export const maxSuggestTicks = (ppq: number) => ppq * 4 * MAX_SUGGEST_BARS;
+
+const isNum = (v: unknown): v is number => typeof v === "number" && isFinite(v);
+
+function readNotes(value: unknown, what: string): SuggestNote[] {
+  if (!Array.isArray(value)) throw new Error(`${what} must be a list of notes`);
+  return value.map((n, i) => {
+    if (!n || !isNum(n.tick) || !isNum(n.length) || !isNum(n.midi) || !isNum(n.vel)) {
+      throw new Error(`${what}[${i}] needs numeric tick, length, midi and vel`);
+    }
+    return {
+      tick: Math.max(0, Math.round(n.tick)),
+      length: Math.max(1, Math.round(n.length)),
+      midi: Math.max(0, Math.min(127, Math.round(n.midi))),
+      vel: Math.max(1, Math.min(127, Math.round(n.vel))),
+    };
+  });
+}
+
+// Checks an incoming request body; throws with a message fit for a 400.
+export function parseSuggestRequest(body: unknown): SuggestRequest {
+  if (!body || typeof body !== "object") throw new Error("Request body must be a JSON object");
+  const data = body as Record<string, unknown>;
+  const range = data.range as { start?: unknown; end?: unknown } | undefined;
+  if (!range || !isNum(range.start) || !isNum(range.end) || range.end <= range.start) {
+    throw new Error("range must have numeric start and end, with end after start");
+  }
+  if (!isNum(data.ppq) || data.ppq < 1 || data.ppq > 65535) throw new Error("ppq must be a number from 1 to 65535");
+  if (range.end - range.start > maxSuggestTicks(data.ppq)) {
+    throw new Error(`range must be at most ${MAX_SUGGEST_BARS} bars (${maxSuggestTicks(data.ppq)} ticks) long`);
+  }
+  const key = data.key as Partial<KeySignature> | undefined;
+  return {
+    notes: readNotes(data.notes ?? [], "notes"),
+    ppq: data.ppq,
+    bpm: isNum(data.bpm) ? data.bpm : 120,
+    key: key && isNum(key.root) && typeof key.scale === "string"
+      ? { ...defaultKey(), ...key, custom: Array.isArray(key.custom) ? key.custom.filter(isNum) : [] }
+      : defaultKey(),
+    range: { start: Math.max(0, Math.round(range.start)), end: Math.round(range.end) },
+    count: isNum(data.count) ? Math.max(1, Math.min(8, Math.round(data.count))) : 3,
+    seed: isNum(data.seed) ? data.seed : Date.now(),
+  };
+}
+
+// Drops anything outside the range and trims notes that run past its end.
+export function clampToRange(notes: SuggestNote[], range: SuggestRequest["range"]) {
+  return notes
+    .filter((note) => note.tick >= range.start && note.tick < range.end)
+    .map((note) => ({ ...note, length: Math.min(note.length, range.end - note.tick) }));
+}
+
+export function markovProvider(): SuggestionProvider {
+  return {
+    name: "markov",
+    suggest: async (request) =>
+      Array.from({ length: request.count }, (_, i) =>
+        generateMelody(request.notes as Note[], {
+          ppq: request.ppq,
+          key: request.key,
+          start: request.range.start,
+          end: request.range.end,
+          seed: request.seed + i * 7919,
+        })
+      ),
+  };
+}
+
+// Any model server that accepts a SuggestRequest as JSON and answers with
+// { candidates: SuggestNote[][] }.
+export function httpProvider(url: string, apiKey?: string): SuggestionProvider {
+  return {
+    name: "http",
+    suggest: async (request) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(15000),
+      });
+      if (!response.ok) throw new Error(`Model backend answered ${response.status}`);
+      const data = (await response.json()) as { candidates?: unknown };
+      if (!Array.isArray(data.candidates)) throw new Error("Model backend sent no candidates");
+      return data.candidates.map((candidate, i) => readNotes(candidate, `candidates[${i}]`));
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { MidiTempo, MidiTimeSignature } from "./midi";
+
+// Tempo and time signature changes for a project. Both lists are kept
+// sorted with an entry at tick 0; use normalizeTempoMap after editing.
+export type TempoMap = {
+  tempos: MidiTempo[];
+  timeSignatures: MidiTimeSignature[];
+};
+
+export const MIN_BPM = 20;
+export const MAX_BPM = 400;
+
+export function defaultTempoMap(bpm = 120): TempoMap {
+  return {
+    tempos: [{ tick: 0, bpm }],
+    timeSignatures: [{ tick: 0, numerator: 4, denominator: 4 }],
+  };
+}
+
+function normalizeList<T extends { tick: number }>(list: T[], fallback: T): T[] {
+  const byTick = new Map<number, T>();
+  // later entries win when two land on the same tick
+  list.forEach((item) => byTick.set(Math.max(0, Math.round(item.tick)), { ...item }));
+  const sorted = Array.from(byTick.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([tick, item]) => ({ ...item, tick }));
+  if (sorted.length === 0 || sorted[0].tick !== 0) {
+    sorted.unshift({ ...(sorted[0] ?? fallback), tick: 0 });
+  }
+  return sorted;
+}
+
+export function normalizeTempoMap(map: TempoMap): TempoMap {
+  const defaults = defaultTempoMap();
+  return {
+    tempos: normalizeList(
+      map.tempos.map((t) => ({ ...t, bpm: Math.max(MIN_BPM, Math.min(MAX_BPM, t.bpm)) })),
+      defaults.tempos[0]
+    ),
+    timeSignatures: normalizeList(
+      map.timeSignatures.filter(
+        (ts) => ts.numerator >= 1 && [1, 2, 4, 8, 16, 32].includes(ts.denominator)
+      ),
+      defaults.timeSignatures[0]
+    ),
+  };
+}
+
+export function bpmAt(map: TempoMap, tick: number) {
+  let bpm = map.tempos[0]?.bpm ?? 120;
+  for (const t of map.tempos) {
+    if (t.tick > tick) break;
+    bpm = t.bpm;
+  }
+  return bpm;
+}
+
+export function timeSignatureAt(map: TempoMap, tick: number) {
+  let ts = map.timeSignatures[0] ?? defaultTempoMap().timeSignatures[0];
+  for (const t of map.timeSignatures) {
+    if (t.tick > tick) break;
+    ts = t;
+  }
+  return ts;
+}
+
+export function tickToSeconds(map: TempoMap, tick: number, ppq: number) {
+  let seconds = 0;
+  let lastTick = 0;
+  let bpm = map.tempos[0]?.bpm ?? 120;
+  for (const t of map.tempos) {
+    if (t.tick >= tick) break;
+    seconds += ((t.tick - lastTick) / ppq) * (60 / bpm);
+    lastTick = t.tick;
+    bpm = t.bpm;
+  }
+  return seconds + ((tick - lastTick) / ppq) * (60 / bpm);
+}
+
+export function secondsToTick(map: TempoMap, seconds: number, ppq: number) {
+  let elapsed = 0;
+  let lastTick = 0;
+  let bpm = map.tempos[0]?.bpm ?? 120;
+  for (const t of map.tempos) {
+    const segment = ((t.tick - lastTick) / ppq) * (60 / bpm);
+    if (elapsed + segment > seconds) break;
+    elapsed += segment;
+    lastTick = t.tick;
+    bpm = t.bpm;
+  }
+  return lastTick + ((seconds - elapsed) / 60) * bpm * ppq;
+}
+
+export type BeatLine = {
+  tick: number;
+  bar: number; // 1-based
+  beat: number; // 1-based within the bar
+  isBar: boolean;
+};
+
+// Every beat line between two ticks. A time signature change always starts
+// a new bar, even if it lands in the middle of one.
+export function beatLines(map: TempoMap, fromTick: number, toTick: number, ppq: number) {
+  const lines: BeatLine[] = [];
+  let bar = 1;
+  map.timeSignatures.forEach((ts, i) => {
+    const next = map.timeSignatures[i + 1];
+    const end = next ? next.tick : Infinity;
+    const beatTicks = (ppq * 4) / ts.denominator;
+    for (let beatIndex = 0; ts.tick + beatIndex * beatTicks < end; beatIndex++) {
+      const tick = ts.tick + beatIndex * beatTicks;
+      const beat = (beatIndex % ts.numerator) + 1;
+      if (beatIndex > 0 && beat === 1) bar++;
+      if (tick > toTick) return;
+      if (tick >= fromTick) lines.push({ tick, bar, beat, isBar: beat === 1 });
+    }
+    bar++;
+  });
+  return lines;
+}
+
+// Tick at the start of a 1-based bar number.
+export function barToTick(map: TempoMap, bar: number, ppq: number) {
+  let currentBar = 1;
+  for (let i = 0; i < map.timeSignatures.length; i++) {
+    const ts = map.timeSignatures[i];
+    const next = map.timeSignatures[i + 1];
+    const barTicks = (ppq * 4 * ts.numerator) / ts.denominator;
+    const barsHere = next ? Math.ceil((next.tick - ts.tick) / barTicks) : Infinity;
+    if (bar < currentBar + barsHere) return ts.tick + (bar - currentBar) * barTicks;
+    currentBar += barsHere;
+  }
+  return 0;
+}
+
+// 1-based bar number containing a tick.
+export function tickToBar(map: TempoMap, tick: number, ppq: number) {
+  let currentBar = 1;
+  for (let i = 0; i < map.timeSignatures.length; i++) {
+    const ts = map.timeSignatures[i];
+    const next = map.timeSignatures[i + 1];
+    const barTicks = (ppq * 4 * ts.numerator) / ts.denominator;
+    if (!next || tick < next.tick) return currentBar + Math.floor((tick - ts.tick) / barTicks);
+    currentBar += Math.ceil((next.tick - ts.tick) / barTicks);
+  }
+  return currentBar;
+}
@@ -0,0 +1,43 @@
+import { Note } from "./notes";
+
+export type Track = {
+  id: string;
+  name: string;
+  instrument: string; // key into the instrument registry
+  notes: Note[];
+  volume: number; // dB
+  pan: number; // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+};
+
+export const MIN_VOLUME = -40;
+export const MAX_VOLUME = 6;
+
+let nextId = 0;
+
+export function newTrackId() {
+  nextId++;
+  return `t_${Date.now().toString(36)}_${nextId.toString(36)}`;
+}
+
+export function createTrack(name: string, instrument: string, notes: Note[] = []): Track {
+  return {
+    id: newTrackId(),
+    name,
+    instrument,
+    notes,
+    volume: 0,
+    pan: 0,
+    mute: false,
+    solo: false,
+  };
+}
+
+// Tracks that should be heard: if any track is soloed only soloed tracks
+// play (solo beats mute), otherwise every unmuted track.
+export function audibleTracks(tracks: Track[]) {
+  const soloed = tracks.filter((track) => track.solo);
+  if (soloed.length) return soloed;
+  return tracks.filter((track) => !track.mute);
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { Note } from "./notes";
+import { humanize, invert, legato, retrograde, strum, stretch, transpose } from "./transforms";
+
+const note = (id: string, tick: number, length: number, midi: number, vel = 100): Note => ({ id, tick, length, midi, vel });
+
+const pitches = (notes: Note[]) => notes.map((n) => n.midi);
+
+describe("transpose", () => {
+  it("shifts every note by the interval", () => {
+    expect(pitches(transpose([note("a", 0, 10, 60), note("b", 10, 10, 64)], 7))).toEqual([67, 71]);
+  });
+
+  it("stops the whole passage at the edge of the keyboard, keeping its intervals", () => {
+    expect(pitches(transpose([note("a", 0, 10, 100), note("b", 10, 10, 104)], 12))).toEqual([104, 108]);
+    expect(pitches(transpose([note("a", 0, 10, 24), note("b", 10, 10, 30)], -12))).toEqual([21, 27]);
+  });
+
+  it("keeps ids, timing and velocity", () => {
+    expect(transpose([note("a", 5, 10, 60, 80)], 1)).toEqual([note("a", 5, 10, 61, 80)]);
+  });
+});
+
+describe("invert", () => {
+  it("mirrors semitones around the pivot", () => {
+    expect(pitches(invert([note("a", 0, 10, 60), note("b", 10, 10, 67)], 64))).toEqual([68, 61]);
+  });
+
+  it("mirrors scale degrees in a key, staying in the scale", () => {
+    const cMajor = { root: 0, scale: "major", custom: [] };
+    // around E: G (two degrees up) becomes C, F (one up) becomes D
+    expect(pitches(invert([note("a", 0, 10, 67), note("b", 10, 10, 65)], 64, cMajor))).toEqual([60, 62]);
+  });
+});
+
+describe("retrograde", () => {
+  it("plays the passage backwards within its span", () => {
+    const result = retrograde([note("a", 0, 10, 60), note("b", 10, 30, 62), note("c", 40, 20, 64)]);
+    expect(result.map((n) => [n.id, n.tick, n.length])).toEqual([
+      ["a", 50, 10],
+      ["b", 20, 30],
+      ["c", 0, 20],
+    ]);
+  });
+});
+
+describe("stretch", () => {
+  it("scales onsets from the passage start and lengths", () => {
+    const result = stretch([note("a", 100, 10, 60), note("b", 120, 20, 62)], 2);
+    expect(result.map((n) => [n.tick, n.length])).toEqual([
+      [100, 20],
+      [140, 40],
+    ]);
+  });
+
+  it("keeps notes at least a tick long and ignores factors that aren't positive", () => {
+    expect(stretch([note("a", 0, 1, 60)], 0.25)[0].length).toBe(1);
+    const notes = [note("a", 0, 10, 60)];
+    expect(stretch(notes, 0)).toBe(notes);
+  });
+});
+
+describe("humanize", () => {
+  const notes = [note("a", 100, 50, 60, 100), note("b", 200, 50, 62, 100), note("c", 300, 50, 64, 100)];
+
+  it("repeats for the same seed", () => {
+    const options = { timing: 10, velocity: 10, seed: 42 };
+    expect(humanize(notes, options)).toEqual(humanize(notes, options));
+  });
+
+  it("stays within the limits and keeps note ends", () => {
+    humanize(notes, { timing: 10, velocity: 5, seed: 7 }).forEach((result, i) => {
+      expect(Math.abs(result.tick - notes[i].tick)).toBeLessThanOrEqual(10);
+      expect(Math.abs(result.vel - notes[i].vel)).toBeLessThanOrEqual(5);
+      expect(result.tick + result.length).toBe(notes[i].tick + notes[i].length);
+    });
+  });
+
+  it("changes nothing with zero amounts", () => {
+    expect(humanize(notes, { timing: 0, velocity: 0, seed: 1 })).toEqual(notes);
+  });
+});
+
+describe("legato", () => {
+  it("stretches each note to the next onset and leaves the last alone", () => {
+    const result = legato([note("a", 0, 10, 60), note("b", 100, 10, 62), note("c", 250, 10, 64)]);
+    expect(result.map((n) => n.length)).toEqual([100, 150, 10]);
+  });
+
+  it("stretches every tone of a chord to the next onset", () => {
+    const result = legato([note("a", 0, 10, 60), note("b", 0, 20, 64), note("c", 50, 10, 67)]);
+    expect(result.map((n) => n.length)).toEqual([50, 50, 10]);
+  });
+
+  it("keeps notes that already reach the next onset", () => {
+    const result = legato([note("a", 0, 100, 60), note("b", 50, 10, 62), note("c", 60, 10, 64)]);
+    expect(result.map((n) => n.length)).toEqual([100, 10, 10]);
+  });
+});
+
+describe("strum", () => {
+  const chord = [note("e", 0, 100, 64), note("c", 0, 100, 60), note("g", 0, 100, 67)];
+
+  it("staggers chord tones from the lowest up, ending together", () => {
+    const result = strum(chord, 10, "up");
+    expect(result.map((n) => [n.id, n.tick, n.tick + n.length])).toEqual([
+      ["e", 10, 100],
+      ["c", 0, 100],
+      ["g", 20, 100],
+    ]);
+  });
+
+  it("starts from the highest when strumming down", () => {
+    expect(strum(chord, 10, "down").map((n) => n.tick)).toEqual([10, 20, 0]);
+  });
+
+  it("leaves single notes and keeps short notes at least a tick long", () => {
+    expect(strum([note("a", 0, 10, 60)], 10)).toEqual([note("a", 0, 10, 60)]);
+    const short = strum([note("a", 0, 5, 60), note("b", 0, 5, 64), note("c", 0, 5, 67)], 10);
+    short.forEach((n) => expect(n.length).toBeGreaterThanOrEqual(1));
+  });
+});
@@ -0,0 +1,111 @@
+import { Note, noteSpan } from "./notes";
+import { createRandom } from "./random";
+import { KeySignature, inScale, snapToScale, stepInScale } from "./scales";
+
+// Pure note transforms behind the Transform menu. Each takes the notes to
+// change and returns their new versions with the same ids, so the result
+// drops straight into a history Change.
+
+const MIN_MIDI = 21;
+const MAX_MIDI = 108;
+
+const clampMidi = (midi: number) => Math.max(MIN_MIDI, Math.min(MAX_MIDI, midi));
+
+// The shift is clamped for the group as a whole, so a passage that would
+// leave the 88 keys stops at the edge instead of flattening against it.
+export function transpose(notes: Note[], semitones: number): Note[] {
+  if (notes.length === 0) return notes;
+  const low = Math.min(...notes.map((note) => note.midi));
+  const high = Math.max(...notes.map((note) => note.midi));
+  const shift = Math.max(MIN_MIDI - low, Math.min(MAX_MIDI - high, semitones));
+  return notes.map((note) => ({ ...note, midi: note.midi + shift }));
+}
+
+// Scale steps from `from` up to `to` (negative when `to` is lower).
+function scaleSteps(key: KeySignature, from: number, to: number) {
+  const direction = to >= from ? 1 : -1;
+  let steps = 0;
+  for (let midi = from; midi !== to; midi += direction) {
+    if (inScale(key, midi + direction)) steps += direction;
+  }
+  return steps;
+}
+
+// Mirrors pitches around `pivot`. Chromatic inversion mirrors semitones;
+// diatonic inversion mirrors scale degrees, so the result stays in key.
+export function invert(notes: Note[], pivot: number, key?: KeySignature): Note[] {
+  if (!key) return notes.map((note) => ({ ...note, midi: clampMidi(2 * pivot - note.midi) }));
+  const center = snapToScale(key, pivot);
+  return notes.map((note) => {
+    const steps = scaleSteps(key, center, snapToScale(key, note.midi));
+    return { ...note, midi: clampMidi(stepInScale(key, center, -steps)) };
+  });
+}
+
+// Plays the passage backwards within the span it occupies.
+export function retrograde(notes: Note[]): Note[] {
+  const { start, end } = noteSpan(notes);
+  return notes.map((note) => ({ ...note, tick: start + end - (note.tick + note.length) }));
+}
+
+// Scales timing by `factor` (2 = twice as long) from the passage's start.
+export function stretch(notes: Note[], factor: number): Note[] {
+  if (!(factor > 0)) return notes;
+  const { start } = noteSpan(notes);
+  return notes.map((note) => ({
+    ...note,
+    tick: Math.round(start + (note.tick - start) * factor),
+    length: Math.max(1, Math.round(note.length * factor)),
+  }));
+}
+
+export type HumanizeOptions = {
+  timing: number; // maximum start offset either way, in ticks
+  velocity: number; // maximum velocity offset either way
+  seed: number;
+};
+
+// Random, repeatable timing and velocity offsets; note ends stay put so
+// nudged notes don't overlap what follows.
+export function humanize(notes: Note[], { timing, velocity, seed }: HumanizeOptions): Note[] {
+  const random = createRandom(seed);
+  return notes.map((note) => {
+    const offset = Math.round((random() * 2 - 1) * timing);
+    const tick = Math.max(0, note.tick + offset);
+    const end = note.tick + note.length;
+    return {
+      ...note,
+      tick,
+      length: Math.max(1, end - tick),
+      vel: Math.max(1, Math.min(127, Math.round(note.vel + (random() * 2 - 1) * velocity))),
+    };
+  });
+}
+
+// Stretches every note to the next onset among the notes; the last onset
+// (and any note already reaching the next onset) keeps its length.
+export function legato(notes: Note[]): Note[] {
+  const onsets = Array.from(new Set(notes.map((note) => note.tick))).sort((a, b) => a - b);
+  return notes.map((note) => {
+    const next = onsets.find((tick) => tick > note.tick);
+    if (next === undefined || note.tick + note.length >= next) return note;
+    return { ...note, length: next - note.tick };
+  });
+}
+
+// Staggers notes that start together (chords) by `ticks` each, lowest
+// first when strumming up; chord tones still end together.
+export function strum(notes: Note[], ticks: number, direction: "up" | "down" = "up"): Note[] {
+  const chords = new Map<number, Note[]>();
+  notes.forEach((note) => chords.set(note.tick, [...(chords.get(note.tick) ?? []), note]));
+  const offsets = new Map<string, number>();
+  chords.forEach((chord) => {
+    chord
+      .sort((a, b) => (direction === "up" ? a.midi - b.midi : b.midi - a.midi))
+      .forEach((note, i) => offsets.set(note.id, i * ticks));
+  });
+  return notes.map((note) => {
+    const offset = Math.min(offsets.get(note.id) ?? 0, note.length - 1);
+    return { ...note, tick: note.tick + offset, length: note.length - offset };
+  });
+}
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { listPorts, listenToInput, parseMidiMessage, requestMidiAccess, watchPorts } from "./webmidi";
+
+// Just enough of the Web MIDI API to stand in for a browser with devices
+type FakePort = EventTarget & { id: string; name: string | null; state: "connected" | "disconnected" };
+
+function fakePort(id: string, name: string | null = id): FakePort {
+  return Object.assign(new EventTarget(), { id, name, state: "connected" as const });
+}
+
+function fakeAccess(inputs: FakePort[], outputs: FakePort[]) {
+  const access = Object.assign(new EventTarget(), {
+    inputs: new Map(inputs.map((port) => [port.id, port])),
+    outputs: new Map(outputs.map((port) => [port.id, port])),
+    onstatechange: null,
+    sysexEnabled: false,
+  });
+  // A device appearing or going away, as the browser reports it
+  const plug = (kind: "inputs" | "outputs", port: FakePort) => {
+    access[kind].set(port.id, port);
+    access.dispatchEvent(new Event("statechange"));
+  };
+  const unplug = (kind: "inputs" | "outputs", id: string) => {
+    access[kind].get(id)!.state = "disconnected";
+    access.dispatchEvent(new Event("statechange"));
+  };
+  return { access: access as unknown as MIDIAccess, plug, unplug };
+}
+
+function midiMessage(data: number[]) {
+  return Object.assign(new Event("midimessage"), { data: new Uint8Array(data) });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("requestMidiAccess", () => {
+  it("reports a browser without Web MIDI", async () => {
+    vi.stubGlobal("navigator", {});
+    await expect(requestMidiAccess()).rejects.toThrow("does not support Web MIDI");
+  });
+
+  it("turns a refused permission into a readable error", async () => {
+    const denied = Object.assign(new Error("denied"), { name: "SecurityError" });
+    vi.stubGlobal("navigator", { requestMIDIAccess: vi.fn().mockRejectedValue(denied) });
+    await expect(requestMidiAccess()).rejects.toThrow("Permission to use MIDI devices was denied");
+  });
+
+  it("asks for access without sysex", async () => {
+    const { access } = fakeAccess([], []);
+    const requestMIDIAccess = vi.fn().mockResolvedValue(access);
+    vi.stubGlobal("navigator", { requestMIDIAccess });
+    await expect(requestMidiAccess()).resolves.toBe(access);
+    expect(requestMIDIAccess).toHaveBeenCalledWith({ sysex: false });
+  });
+});
+
+describe("listPorts", () => {
+  it("lists connected inputs and outputs, naming unnamed ports by id", () => {
+    const { access } = fakeAccess([fakePort("in-1", "Keystation"), fakePort("in-2", null)], [fakePort("out-1", "Synth")]);
+    expect(listPorts(access)).toEqual({
+      inputs: [
+        { id: "in-1", name: "Keystation" },
+        { id: "in-2", name: "in-2" },
+      ],
+      outputs: [{ id: "out-1", name: "Synth" }],
+    });
+  });
+});
+
+describe("watchPorts", () => {
+  it("follows devices being plugged in and removed", () => {
+    const { access, plug, unplug } = fakeAccess([fakePort("in-1")], []);
+    const onChange = vi.fn();
+    watchPorts(access, onChange);
+
+    plug("outputs", fakePort("out-1"));
+    expect(onChange).toHaveBeenLastCalledWith({ inputs: [{ id: "in-1", name: "in-1" }], outputs: [{ id: "out-1", name: "out-1" }] });
+
+    unplug("inputs", "in-1");
+    expect(onChange).toHaveBeenLastCalledWith({ inputs: [], outputs: [{ id: "out-1", name: "out-1" }] });
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops calling back once stopped", () => {
+    const { access, plug } = fakeAccess([], []);
+    const onChange = vi.fn();
+    const stop = watchPorts(access, onChange);
+    stop();
+    plug("inputs", fakePort("in-1"));
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
+
+describe("listenToInput", () => {
+  it("passes on notes from the chosen input until stopped", () => {
+    const input = fakePort("in-1");
+    const { access } = fakeAccess([input], []);
+    const onNote = vi.fn();
+    const stop = listenToInput(access, "in-1", onNote);
+
+    input.dispatchEvent(midiMessage([0x91, 60, 100]));
+    input.dispatchEvent(midiMessage([0xf8, 0, 0])); // clock, ignored
+    expect(onNote).toHaveBeenCalledTimes(1);
+    expect(onNote).toHaveBeenCalledWith({ type: "noteon", channel: 1, midi: 60, vel: 100 });
+
+    stop();
+    input.dispatchEvent(midiMessage([0x81, 60, 0]));
+    expect(onNote).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing for an input that is gone", () => {
+    const { access } = fakeAccess([], []);
+    expect(() => listenToInput(access, "missing", vi.fn())()).not.toThrow();
+  });
+});
+
+describe("parseMidiMessage", () => {
+  it("treats note-on with velocity 0 as note-off", () => {
+    expect(parseMidiMessage(new Uint8Array([0x90, 64, 0]))).toEqual({ type: "noteoff", channel: 0, midi: 64, vel: 0 });
+  });
+
+  it("ignores short and non-note messages", () => {
+    expect(parseMidiMessage(new Uint8Array([0x90, 64]))).toBeNull();
+    expect(parseMidiMessage(new Uint8Array([0xb0, 7, 100]))).toBeNull();
+    expect(parseMidiMessage(null)).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+// Thin layer over the Web MIDI API. Everything goes through
+// navigator.requestMIDIAccess at call time, so tests can swap in a mock.
+
+export type MidiPort = { id: string; name: string };
+
+export type MidiNoteMessage = {
+  type: "noteon" | "noteoff";
+  channel: number; // 0-15
+  midi: number;
+  vel: number; // 0 for note-off
+};
+
+export function isMidiSupported() {
+  return typeof navigator !== "undefined" && typeof navigator.requestMIDIAccess === "function";
+}
+
+// Rejects with a message that can be shown to the user as-is.
+export async function requestMidiAccess(): Promise<MIDIAccess> {
+  if (!isMidiSupported()) {
+    throw new Error("This browser does not support Web MIDI (try Chrome or Edge)");
+  }
+  try {
+    return await navigator.requestMIDIAccess({ sysex: false });
+  } catch (error) {
+    const name = (error as { name?: string })?.name;
+    if (name === "SecurityError" || name === "NotAllowedError") {
+      throw new Error("Permission to use MIDI devices was denied");
+    }
+    throw new Error(`Could not open MIDI devices: ${(error as Error)?.message ?? error}`);
+  }
+}
+
+function portList(ports: MIDIInputMap | MIDIOutputMap): MidiPort[] {
+  const list: MidiPort[] = [];
+  ports.forEach((port) => {
+    if (port.state !== "disconnected") list.push({ id: port.id, name: port.name ?? port.id });
+  });
+  return list;
+}
+
+export function listPorts(access: MIDIAccess) {
+  return { inputs: portList(access.inputs), outputs: portList(access.outputs) };
+}
+
+// Hot-plugging: calls back with fresh port lists whenever a device is
+// connected or removed; returns a function that stops watching.
+export function watchPorts(access: MIDIAccess, onChange: (ports: ReturnType<typeof listPorts>) => void) {
+  const handle = () => onChange(listPorts(access));
+  access.addEventListener("statechange", handle);
+  return () => access.removeEventListener("statechange", handle);
+}
+
+// Note-on/off only; everything else (clock, CC, sysex) is ignored.
+export function parseMidiMessage(data: Uint8Array | null): MidiNoteMessage | null {
+  if (!data || data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  const midi = data[1] & 0x7f;
+  const vel = data[2] & 0x7f;
+  if (status === 0x90 && vel > 0) return { type: "noteon", channel, midi, vel };
+  if (status === 0x80 || status === 0x90) return { type: "noteoff", channel, midi, vel: 0 };
+  return null;
+}
+
+export function noteOnMessage(channel: number, midi: number, vel: number) {
+  return [0x90 | (channel & 0x0f), midi & 0x7f, Math.max(1, vel) & 0x7f];
+}
+
+export function noteOffMessage(channel: number, midi: number) {
+  return [0x80 | (channel & 0x0f), midi & 0x7f, 0];
+}
+
+// CC 123: stops anything still sounding on the channel
+export function allNotesOffMessage(channel: number) {
+  return [0xb0 | (channel & 0x0f), 123, 0];
+}
+
+// Drops messages still queued with future timestamps (where the browser
+// supports MIDIOutput.clear) and stops whatever is sounding on the channel.
+export function silenceOutput(output: MIDIOutput, channel: number) {
+  (output as MIDIOutput & { clear?: () => void }).clear?.();
+  output.send(allNotesOffMessage(channel));
+}
+
+// Listens to one input; returns a function that stops listening.
+export function listenToInput(
+  access: MIDIAccess,
+  id: string,
+  onNote: (message: MidiNoteMessage) => void
+) {
+  const input = access.inputs.get(id);
+  if (!input) return () => {};
+  const handle = (e: Event) => {
+    const message = parseMidiMessage((e as MIDIMessageEvent).data);
+    if (message) onNote(message);
+  };
+  input.addEventListener("midimessage", handle);
+  return () => input.removeEventListener("midimessage", handle);
+}